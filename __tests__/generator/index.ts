@@ -4,6 +4,7 @@ import path from 'path'
 import { generate } from '../../src/generator'
 import { parse } from '../../src'
 import { getJoinedRegExp } from '../../src/parser/tokenizer'
+import { SubroutineStatement } from '../../src/nodes'
 
 const splitters = [
   /* spaces         */ / +/,
@@ -18,6 +19,42 @@ const splitters = [
 ]
 const reSplitter = new RegExp('(' + getJoinedRegExp(splitters) + ')')
 
+const BASE64 =
+  'ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789+/'
+
+// Decodes v3 mappings into absolute [genLine, genCol, source, line, col, name?]
+const decodeMappings = (mappings: string): Array<Array<number>> => {
+  const decoded: Array<Array<number>> = []
+  const prev = [0, 0, 0, 0, 0]
+
+  mappings.split(';').forEach((line, genLine) => {
+    prev[0] = 0
+
+    for (const segment of line.split(',').filter(Boolean)) {
+      const values: Array<number> = []
+      let shift = 0
+      let value = 0
+
+      for (const char of segment) {
+        const digit = BASE64.indexOf(char)
+        value += (digit & 31) << shift
+
+        if (digit & 32) {
+          shift += 5
+        } else {
+          values.push(value & 1 ? -(value >> 1) : value >> 1)
+          shift = value = 0
+        }
+      }
+
+      values.forEach((v, i) => (prev[i] += v))
+      decoded.push([genLine, ...prev.slice(0, values.length)])
+    }
+  })
+
+  return decoded
+}
+
 // This helper
 // - excludes
 //   - empty string (we should care this only when comparing arrays)
@@ -53,4 +90,70 @@ describe('Generator', () => {
       excludeSomeTokensAndConvertIntoArray(code)
     )
   })
+
+  it('should generate source maps', () => {
+    const result = generate(ast, {
+      sourceMaps: true,
+      sourceFileName: '../rough.vcl',
+      sourceMapTarget: 'rough.out.vcl',
+    })
+
+    // markers must not leak into the output
+    expect(result.code).toBe(generate(ast).code)
+
+    const map = JSON.parse(result.map as string)
+
+    expect(map).toMatchObject({
+      version: 3,
+      file: 'rough.out.vcl',
+      sources: ['../rough.vcl'],
+    })
+
+    const generatedLines = result.code.split('\n')
+    const originalLines = code.split('\n')
+    const mappings = decodeMappings(map.mappings)
+
+    expect(mappings.length).toBeGreaterThan(0)
+
+    for (const [genLine, genCol, , line, col, name] of mappings) {
+      if (name === undefined) continue
+
+      const identifier = map.names[name]
+
+      expect(generatedLines[genLine].slice(genCol)).toMatch(
+        new RegExp('^' + identifier.replace(/[.-]/g, '\\$&'))
+      )
+      expect(originalLines[line].slice(col)).toMatch(
+        new RegExp('^' + identifier.replace(/[.-]/g, '\\$&'))
+      )
+    }
+  })
+
+  it('should print multiline literals as written', () => {
+    const code = [
+      'sub vcl_error {',
+      '  synthetic {html"<html>',
+      '  <p>"}</p>',
+      '</html>"html};',
+      '  return (deliver);',
+      '}',
+    ].join('\n')
+
+    expect(generate(parse(code)).code).toBe(code)
+  })
+
+  it('should map moved nodes to their original location', () => {
+    const ast = parse('sub vcl_recv {\n  set req.http.A = "a";\n  call b;\n}')
+    const body = (ast.body[0] as SubroutineStatement).body
+
+    body.reverse()
+
+    const result = generate(ast, { sourceMaps: true })
+    const mappings = decodeMappings(JSON.parse(result.map as string).mappings)
+
+    // `call b;` is printed on the 2nd line but comes from the 3rd line
+    expect(mappings).toContainEqual([1, 2, 0, 2, 2])
+    // `set req.http.A = "a";` is printed on the 3rd line but comes from the 2nd line
+    expect(mappings).toContainEqual([2, 2, 0, 1, 2])
+  })
 })
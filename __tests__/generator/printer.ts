@@ -52,6 +52,11 @@ describe('Buffer', () => {
       line: 6,
       column: 0,
     })
+    b.append('de\n  f')
+    expect(b.position).toStrictEqual({
+      line: 7,
+      column: 3,
+    })
   })
 
   // it('should keep source position', () => {
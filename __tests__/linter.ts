@@ -0,0 +1,184 @@
+import { parse } from '../src'
+import { lint, LintRuleName } from '../src/linter'
+import { formatDiagnostic } from '../src/diagnostic'
+
+const lintSource = (source: string, rules?: Array<LintRuleName>) =>
+  lint(parse(source), { source, rules })
+
+const recv = (condition: string) =>
+  `sub vcl_recv {\n  if (${condition}) {\n    restart;\n  }\n}`
+
+describe('Linter', () => {
+  describe('redos', () => {
+    const lintRedos = (source: string) => lintSource(source, ['redos'])
+
+    it('should report nested quantifiers', () => {
+      expect(lintRedos(recv('req.url ~ "^/(a+)+$"'))).toMatchObject([
+        {
+          code: 'VCL2001',
+          name: 'NestedQuantifier',
+          severity: 'warning',
+          message: "Nested quantifier '(a+)+' can backtrack catastrophically",
+          start: { line: 2, column: 20 },
+          end: { line: 2, column: 24 },
+          hint: 'rewrite it as "^/(a++)+$"',
+        },
+      ])
+
+      expect(lintRedos(recv('req.url ~ "(\\w+\\s?)*$"'))).toMatchObject([
+        { name: 'NestedQuantifier', hint: 'rewrite it as "(\\w++\\s?)*$"' },
+      ])
+      expect(lintRedos(recv('req.url ~ "(a*?)*b"'))).toMatchObject([
+        { name: 'NestedQuantifier', hint: 'rewrite it as "((?>a*?))*b"' },
+      ])
+    })
+
+    it('should not report quantifiers which can not repeat each other', () => {
+      expect(lintRedos(recv('req.url ~ "^(a+b)+$"'))).toEqual([])
+      expect(lintRedos(recv('req.url ~ "^(a++)+$"'))).toEqual([])
+      expect(lintRedos(recv('req.url ~ "^(?>a+)+$"'))).toEqual([])
+    })
+
+    it('should report overlapping alternatives', () => {
+      expect(lintRedos(recv('req.url ~ "^(a|ab)*c"'))).toMatchObject([
+        {
+          code: 'VCL2002',
+          name: 'OverlappingAlternation',
+          hint: 'rewrite it as "^(a(?:b)?)*c"',
+        },
+      ])
+      expect(lintRedos(recv('req.url ~ "^(a|ab|c)*$"'))).toMatchObject([
+        { hint: 'rewrite it as "^(ab|a|c)*$"' },
+      ])
+      expect(lintRedos(recv('req.url ~ "^(ab|a[b-d]c)*$"'))).toMatchObject([
+        { hint: 'rewrite it as "^(a(?:b|[b-d]c))*$"' },
+      ])
+      expect(lintRedos(recv('req.url ~ "^(\\d+a|1)*$"'))).toMatchObject([
+        { hint: undefined },
+      ])
+      expect(lintRedos(recv('req.url ~ "^(?:\\d|[0-9a-f])+$"'))).toMatchObject([
+        { hint: 'rewrite it as "^[\\d0-9a-f]+$"' },
+      ])
+      expect(lintRedos(recv('req.url ~ "^(a|b)+$"'))).toEqual([])
+      expect(lintRedos(recv('req.url ~ "^(ab|ac)*$"'))).toEqual([])
+      expect(lintRedos(recv('req.url ~ "^(ab|a[b-d]c)*$"'))).toMatchObject([
+        { name: 'OverlappingAlternation' },
+      ])
+    })
+
+    it('should suggest rewrites which match the same inputs', () => {
+      // every string of up to 6 characters of a, b and c
+      const inputs = ['']
+
+      for (let i = 0; i < inputs.length && inputs[i].length < 6; i++) {
+        inputs.push(...['a', 'b', 'c'].map((char) => inputs[i] + char))
+      }
+
+      for (const pattern of [
+        '^(a|ab)*c$',
+        '^(a|ab|c)*$',
+        '^(ab|a[b-d]c)*$',
+        '^(?:aa|a)+b',
+        '^(abc|ab|a)*$',
+      ]) {
+        const [{ hint }] = lintRedos(recv(`req.url ~ "${pattern}"`))
+        const rewrite = JSON.parse(hint!.replace('rewrite it as ', ''))
+        const original = new RegExp(pattern)
+        const rewritten = new RegExp(rewrite)
+
+        expect(rewrite).not.toBe(pattern)
+        expect(inputs.filter((input) => rewritten.test(input))).toEqual(
+          inputs.filter((input) => original.test(input))
+        )
+      }
+    })
+
+    it('should report unanchored wildcards in vcl_recv', () => {
+      expect(lintRedos(recv('req.url ~ ".*\\.php$"'))).toMatchObject([
+        {
+          code: 'VCL2003',
+          name: 'UnanchoredWildcard',
+          start: { line: 2, column: 18 },
+          hint: 'rewrite it as "\\.php$"',
+        },
+      ])
+
+      expect(
+        lintRedos(
+          'sub vcl_recv {\n  set req.url = regsub(req.url, ".*/", "/");\n}'
+        )
+      ).toMatchObject([{ hint: 'rewrite it as "^.*/"' }])
+
+      expect(
+        lintRedos('sub vcl_deliver {\n  if (req.url ~ ".*foo") {}\n}')
+      ).toEqual([])
+      expect(lintRedos(recv('req.url ~ "^.*foo"'))).toEqual([])
+    })
+
+    it('should point at the pattern through escapes', () => {
+      const [diagnostic] = lintRedos(recv('req.url ~ "%22(a+)+"'))
+
+      expect(formatDiagnostic(diagnostic)).toMatchInlineSnapshot(`
+        "VCL2001 NestedQuantifier: Nested quantifier '(a+)+' can backtrack catastrophically
+
+          1 | sub vcl_recv {
+        > 2 |   if (req.url ~ \\"%22(a+)+\\") {
+                                  ^^^^^
+          3 |     restart;
+          4 |   }
+
+        hint: rewrite it as \\"%22(a++)+\\"
+        "
+      `)
+    })
+  })
+
+  describe('fastlyMacros', () => {
+    it('should report subroutines without their macro', () => {
+      const diagnostics = lintSource(
+        [
+          'sub vcl_recv {',
+          '#FASTLY recv',
+          '  return (lookup);',
+          '}',
+          '',
+          'sub vcl_fetch {',
+          '#FASTLY deliver',
+          '}',
+          '',
+          'sub vcl_deliver {',
+          '  if (resp.status == 200) {',
+          '    #FASTLY deliver',
+          '  }',
+          '}',
+          '',
+          'sub custom {}',
+        ].join('\n'),
+        ['fastlyMacros']
+      )
+
+      expect(diagnostics).toMatchObject([
+        {
+          code: 'VCL2004',
+          name: 'MissingFastlyMacro',
+          severity: 'warning',
+          message: "vcl_fetch doesn't contain '#FASTLY fetch'",
+          start: { line: 6, column: 5 },
+          end: { line: 6, column: 13 },
+          hint: "put '#FASTLY fetch' at the beginning of the subroutine",
+        },
+      ])
+    })
+
+    it('should only check Fastly VCL', () => {
+      const source = 'sub vcl_recv {\n  return (hash);\n}'
+
+      expect(
+        lint(parse(source, { dialect: 'varnish6' }), {
+          source,
+          dialect: 'varnish6',
+        })
+      ).toEqual([])
+    })
+  })
+})
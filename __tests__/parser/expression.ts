@@ -37,7 +37,7 @@ describe('Expression', () => {
         type: 'ConcatExpression',
         body: [
           { type: 'Member' },
-          { type: 'StringLiteral' },
+          { type: 'MultilineLiteral' },
           { type: 'BooleanLiteral' },
           { type: 'NumericLiteral' },
         ],
@@ -1,9 +1,16 @@
 import { parse } from '../../src'
+import { generate } from '../../src/generator'
+import { Parser } from '../../src/parser'
+import { parseStmt } from '../../src/parser/statement'
+import { SubroutineStatement } from '../../src/nodes'
+
+// expression statements are only allowed in subroutines
+const parseBody = (source: string) => [parseStmt(new Parser(source))]
 
 describe('Parser', () => {
   describe('Program', () => {
     it('should parse literal', () => {
-      expect(parse('true;').body).toMatchObject([
+      expect(parseBody('true;')).toMatchObject([
         {
           type: 'ExpressionStatement',
           body: {
@@ -17,7 +24,7 @@ describe('Parser', () => {
         },
       ])
 
-      expect(parse('"hello";').body).toMatchObject([
+      expect(parseBody('"hello";')).toMatchObject([
         {
           type: 'ExpressionStatement',
           body: {
@@ -31,7 +38,7 @@ describe('Parser', () => {
         },
       ])
 
-      expect(parse('100;').body).toMatchObject([
+      expect(parseBody('100;')).toMatchObject([
         {
           type: 'ExpressionStatement',
           body: {
@@ -45,7 +52,7 @@ describe('Parser', () => {
         },
       ])
 
-      expect(parse('100s;').body).toMatchObject([
+      expect(parseBody('100s;')).toMatchObject([
         {
           type: 'ExpressionStatement',
           body: {
@@ -55,7 +62,7 @@ describe('Parser', () => {
         },
       ])
 
-      expect(parse('ident;').body).toMatchObject([
+      expect(parseBody('ident;')).toMatchObject([
         {
           type: 'ExpressionStatement',
           body: {
@@ -70,7 +77,7 @@ describe('Parser', () => {
       ])
     })
 
-    expect(parse('ident "hello" 100;').body).toMatchObject([
+    expect(parseBody('ident "hello" 100;')).toMatchObject([
       {
         type: 'ExpressionStatement',
         body: {
@@ -106,4 +113,171 @@ describe('Parser', () => {
       },
     ])
   })
+
+  describe('Recovery', () => {
+    const source = `sub vcl_recv {
+  set req.http.A = "a";
+  set req.http.B = ;
+  # comment
+  set req.http.C = "c";
+  unset;
+}
+
+acl internal {
+  "10.0.0.0"/;
+}
+
+sub vcl_deliver {
+  return(deliver);
+}
+`
+
+    it('should report every syntax error', () => {
+      const { diagnostics } = parse(source, { recover: true })
+
+      expect(diagnostics).toMatchObject([
+        {
+          severity: 'error',
+          loc: { start: { line: 3, column: 20 } },
+        },
+        {
+          severity: 'error',
+          loc: { start: { line: 6, column: 8 } },
+        },
+        {
+          severity: 'error',
+          loc: { start: { line: 10, column: 14 } },
+        },
+      ])
+      expect(diagnostics[0].message).not.toMatch('\n')
+    })
+
+    it('should keep unparsable spans as BogusStatement', () => {
+      const { ast } = parse(source, { recover: true })
+
+      expect(ast.body).toMatchObject([
+        {
+          type: 'SubroutineStatement',
+          body: [
+            { type: 'SetStatement' },
+            {
+              type: 'BogusStatement',
+              raw: 'set req.http.B = ;',
+              loc: { start: { line: 3, column: 3 }, end: { line: 3 } },
+            },
+            { type: 'SetStatement', leadingComments: [{ value: '# comment' }] },
+            { type: 'BogusStatement', raw: 'unset;' },
+          ],
+        },
+        {
+          type: 'BogusStatement',
+          raw: 'acl internal {\n  "10.0.0.0"/;\n}',
+        },
+        { type: 'SubroutineStatement' },
+      ])
+    })
+
+    it('should print BogusStatement as it is', () => {
+      const { ast } = parse(source, { recover: true })
+
+      expect(generate(ast).code).toMatch('set req.http.B = ;\n')
+    })
+
+    it('should keep invalid regexes as RegexLiteral', () => {
+      const {
+        ast,
+        diagnostics,
+      } = parse(
+        'sub vcl_recv {\n  if (req.url ~ "(") {\n    restart;\n  }\n}',
+        { recover: true }
+      )
+
+      expect(diagnostics).toMatchObject([
+        {
+          name: 'InvalidRegex',
+          loc: { start: { line: 2, column: 18 } },
+        },
+      ])
+      expect(ast.body).toMatchObject([
+        {
+          type: 'SubroutineStatement',
+          body: [
+            {
+              type: 'IfStatement',
+              test: { right: { type: 'RegexLiteral', pattern: '(' } },
+            },
+          ],
+        },
+      ])
+    })
+
+    it('should report unclosed blocks', () => {
+      const { ast, diagnostics } = parse(
+        'sub vcl_recv {\n  set req.http.A = "a";',
+        {
+          recover: true,
+        }
+      )
+
+      expect(diagnostics).toMatchObject([
+        { message: "Expected '}' symbol", loc: { start: { line: 2 } } },
+      ])
+      expect(ast.body).toMatchObject([
+        { type: 'SubroutineStatement', body: [{ type: 'SetStatement' }] },
+      ])
+    })
+
+    it('should skip invalid tokens', () => {
+      const { ast, diagnostics } = parse(
+        'sub vcl_recv {\n  set req.http.A = "a\n";\n  restart;\n}',
+        {
+          recover: true,
+        }
+      )
+
+      expect(diagnostics.length).toBeGreaterThan(0)
+      expect(diagnostics.map((d) => d.name)).not.toContain('MisplacedStatement')
+      const sub = ast.body[0] as SubroutineStatement
+
+      expect(sub.body[sub.body.length - 1]).toMatchObject({
+        type: 'RestartStatement',
+      })
+    })
+
+    it('should keep misplaced statements', () => {
+      const { ast, diagnostics } = parse(
+        'set req.http.A = "a";\nsub vcl_recv {\n  table t {}\n}',
+        {
+          recover: true,
+        }
+      )
+
+      expect(diagnostics).toMatchObject([
+        { name: 'MisplacedStatement', start: { line: 1, column: 1 } },
+        { name: 'MisplacedStatement', start: { line: 3, column: 3 } },
+      ])
+      expect(ast.body).toMatchObject([
+        { type: 'SetStatement' },
+        { type: 'SubroutineStatement', body: [{ type: 'TableStatement' }] },
+      ])
+    })
+
+    it.each(['', '\n\n', '# comment\n'])(
+      'should parse empty source %j',
+      (empty) => {
+        const { ast, diagnostics } = parse(empty, { recover: true })
+
+        expect(diagnostics).toEqual([])
+        expect(ast).toMatchObject({
+          type: 'Program',
+          body: [],
+          loc: { start: { offset: 0 } },
+        })
+      }
+    )
+
+    it('should throw without `recover`', () => {
+      expect(() => parse(source)).toThrow(SyntaxError)
+    })
+  })
 })
@@ -1,5 +1,6 @@
 import { parseLiteral } from '../../src/parser/literal'
 import { Parser } from '../../src/parser'
+import { buildStringLiteral } from '../../src/utils/node'
 
 describe('Literal', () => {
   const parseExpr = (source: string) => parseLiteral(new Parser(source))
@@ -30,23 +31,94 @@ describe('Literal', () => {
         "`)
       ).toThrowError(/Invalid token/)
     })
+
+    it('should decode escapes', () => {
+      const cases = {
+        '"foo"': 'foo',
+        '"%22foo%22"': '"foo"',
+        '"100%25"': '100%',
+        '"caf%C3%A9"': 'café',
+        '"%E9"': 'é',
+        '"%u00e9%u{1F600}"': 'é😀',
+      }
+
+      for (const [raw, cooked] of Object.entries(cases)) {
+        expect(parseExpr(raw)).toMatchObject({
+          type: 'StringLiteral',
+          value: raw,
+          cooked,
+        })
+      }
+
+      expect(() => parseExpr('"100%"')).toThrowError(/Invalid escape '%'/)
+      expect(() => parseExpr('"%u{110000}"')).toThrowError(/Invalid escape/)
+    })
+
+    it('should keep escapes as they are in Varnish', () => {
+      for (const raw of ['"100%"', '"%22foo%22"', '"%u{110000}"']) {
+        expect(
+          parseLiteral(new Parser(raw, { dialect: 'varnish6' }))
+        ).toMatchObject({ value: raw, cooked: raw.slice(1, -1) })
+      }
+    })
+
+    it('should be built from any string', () => {
+      for (const value of ['foo', '"foo"', '100%', 'a\nb', 'café']) {
+        const node = buildStringLiteral(value)
+
+        expect(parseExpr(node.value)).toMatchObject({
+          value: node.value,
+          cooked: value,
+        })
+      }
+
+      expect(buildStringLiteral('"100%"\n').value).toBe('"%22100%25%22%0A"')
+    })
   })
 
   describe('MultilineLiteral', () => {
     it('should parse', () => {
       expect(parseExpr('{"hello"}')).toMatchObject({
-        type: 'StringLiteral',
+        type: 'MultilineLiteral',
         value: '{"hello"}',
+        delimiter: '',
+        cooked: 'hello',
       })
       expect(
         parseExpr(`{"
 multiline
 "}`)
       ).toMatchObject({
-        type: 'StringLiteral',
+        type: 'MultilineLiteral',
         value: '{"\nmultiline\n"}',
       })
     })
+
+    it('should parse with a delimiter', () => {
+      expect(parseExpr('{xyz"<a href="/">"}</a>"xyz}')).toMatchObject({
+        type: 'MultilineLiteral',
+        value: '{xyz"<a href="/">"}</a>"xyz}',
+        delimiter: 'xyz',
+        cooked: '<a href="/">"}</a>',
+      })
+    })
+
+    it('should locate tokens after it', () => {
+      const p = new Parser('{"a\nbc"} {xyz"d"xyz}')
+
+      expect(parseLiteral(p)).toMatchObject({
+        loc: {
+          start: { line: 1, column: 1 },
+          end: { line: 2, column: 4 },
+        },
+      })
+      expect(parseLiteral(p)).toMatchObject({
+        loc: {
+          start: { line: 2, column: 6 },
+          end: { line: 2, column: 16 },
+        },
+      })
+    })
   })
 
   describe('DurationLiteral', () => {
@@ -65,6 +137,18 @@ multiline
         type: 'DurationLiteral',
       })
     })
+
+    it('should parse the number and unit', () => {
+      expect(parseExpr('-10s')).toMatchObject({
+        type: 'DurationLiteral',
+        value: '-10s',
+        number: -10,
+        unit: 's',
+      })
+
+      expect(parseExpr('1.5h')).toMatchObject({ number: 1.5, unit: 'h' })
+      expect(parseExpr('10min')).toMatchObject({ type: 'NumericLiteral' })
+    })
   })
 
   describe('NumericLiteral', () => {
@@ -82,7 +166,32 @@ multiline
       expect(() => parseExpr('001')).toThrowError(/Invalid number/)
 
       expect(() => parseExpr('0.')).toThrow(/Invalid number/)
-      expect(parseExpr('.11')).toBe(null)
+    })
+
+    it('should parse the number', () => {
+      const cases = {
+        '-1': -1,
+        '0.5': 0.5,
+        '.5': 0.5,
+        '-.5': -0.5,
+        '1.5e3': 1500,
+        '-2.5E-3': -0.0025,
+        '0x1F': 31,
+        '-0x10': -16,
+        '0x1.8p3': 12,
+        '0xAp-1': 5,
+      }
+
+      for (const [raw, number] of Object.entries(cases)) {
+        expect(parseExpr(raw)).toMatchObject({
+          type: 'NumericLiteral',
+          value: raw,
+          number,
+        })
+      }
+
+      expect(() => parseExpr('1.2.3')).toThrow(/Invalid number/)
+      expect(() => parseExpr('0x1.')).toThrow(/Invalid number/)
     })
   })
 })
@@ -0,0 +1,86 @@
+import { parseRegex, RegexError } from '../../src/parser/regex'
+
+describe('Regex', () => {
+  it('should parse', () => {
+    expect(parseRegex('^/a(b|c)*$')).toMatchObject({
+      type: 'Alternation',
+      alternatives: [
+        {
+          type: 'Sequence',
+          body: [
+            { type: 'Assertion', raw: '^' },
+            { type: 'Char', raw: '/' },
+            { type: 'Char', raw: 'a' },
+            {
+              type: 'Quantifier',
+              min: 0,
+              max: Infinity,
+              body: {
+                type: 'Group',
+                kind: 'capturing',
+                body: { alternatives: [{ body: [{ raw: 'b' }] }, {}] },
+              },
+            },
+            { type: 'Assertion', raw: '$' },
+          ],
+        },
+      ],
+    })
+  })
+
+  it('should parse quantifiers', () => {
+    const quantifier = (pattern: string) =>
+      parseRegex(pattern).alternatives[0].body[0]
+
+    expect(quantifier('a+?')).toMatchObject({ min: 1, lazy: true })
+    expect(quantifier('a?+')).toMatchObject({ max: 1, possessive: true })
+    expect(quantifier('a{2,}')).toMatchObject({ min: 2, max: Infinity })
+    expect(quantifier('a{2,3}')).toMatchObject({ min: 2, max: 3 })
+    expect(parseRegex('a{,3}').alternatives[0].body[1]).toMatchObject({
+      type: 'Char',
+      raw: '{',
+    })
+  })
+
+  it('should accept PCRE syntax', () => {
+    for (const pattern of [
+      '(?i)^/foo',
+      '(?:a|b)(?=c)(?!d)(?<=e)(?<!f)(?>g)',
+      '(?<name>a)(?P<other>b)\\k<name>(?P=other)',
+      '[]a-z\\d[:alpha:]-]',
+      '[^\\]]',
+      '\\Q(*)\\E\\x{1F}\\p{L}',
+      '(?#comment)a',
+    ]) {
+      expect(() => parseRegex(pattern)).not.toThrow()
+    }
+  })
+
+  it('should throw with the index', () => {
+    const cases = {
+      '(a': ['Missing closing parenthesis', 0],
+      'a)': ['Unmatched closing parenthesis', 1],
+      '[a': ['Missing terminating ] for character class', 0],
+      '+a': ['Nothing to repeat', 0],
+      'a|*': ['Nothing to repeat', 2],
+      'a**': ['Nothing to repeat', 2],
+      'a{3,2}': ['Numbers out of order in {} quantifier', 1],
+      '[b-a]': ['Range out of order in character class', 1],
+      'a\\': ['\\ at end of pattern', 1],
+      '(?X)': ['Unrecognized character after (?', 2],
+    }
+
+    for (const [pattern, [message, index]] of Object.entries(cases)) {
+      let error: RegexError | undefined
+
+      try {
+        parseRegex(pattern)
+      } catch (err) {
+        error = err
+      }
+
+      expect(error).toBeInstanceOf(RegexError)
+      expect(error).toMatchObject({ message, index })
+    }
+  })
+})
@@ -23,7 +23,7 @@ describe('parseStatement', () => {
         type: 'LogStatement',
         content: {
           type: 'ConcatExpression',
-          body: [{ type: 'StringLiteral' }, { type: 'Member' }],
+          body: [{ type: 'MultilineLiteral' }, { type: 'Member' }],
         },
       } as LogStatement)
 
@@ -274,7 +274,68 @@ import "module";
         parse(`
         return invalid_action;
       `)
-      ).toThrow(/return action should be one of/)
+      ).toThrow(/Invalid return action 'invalid_action'/)
+    })
+
+    it('should parse without action', () => {
+      expect(parse('return;')).toStrictEqual(
+        expect.objectContaining({ type: 'ReturnStatement' })
+      )
+      expect(parse('return;')).not.toHaveProperty('action')
+    })
+
+    it('should parse a value in typed subroutines', () => {
+      expect(
+        parse(`
+        sub is_mobile BOOL {
+          return req.http.X-Mobile == "1";
+        }
+      `)
+      ).toMatchObject({
+        type: 'SubroutineStatement',
+        returnType: 'BOOL',
+        body: [
+          {
+            type: 'ReturnStatement',
+            argument: { type: 'BinaryExpression', operator: '==' },
+          },
+        ],
+      })
+    })
+
+    it('should not parse a value in untyped subroutines', () => {
+      expect(() =>
+        parse(`
+        sub vcl_recv {
+          return req.http.X;
+        }
+      `)
+      ).toThrow(/Invalid return action 'req'/)
+    })
+
+    it('should check the action against the dialect', () => {
+      const source = 'return (deliver_stale);'
+
+      expect(parse(source)).toMatchObject({ action: 'deliver_stale' })
+      expect(() =>
+        parseStmt(new Parser(source, { dialect: 'varnish6' }))
+      ).toThrow(/Invalid return action 'deliver_stale'/)
+    })
+
+    it('should parse arguments of the action in Varnish', () => {
+      const node = parseStmt(
+        new Parser('return (synth(404, "Not Found"));', { dialect: 'varnish6' })
+      )
+
+      expect(node).toMatchObject({
+        type: 'ReturnStatement',
+        action: 'synth',
+        args: [
+          { type: 'NumericLiteral', value: '404' },
+          { type: 'StringLiteral', value: '"Not Found"' },
+        ],
+      } as ReturnStatement)
+      expect(parse('return (pass);')).not.toHaveProperty('args')
     })
   })
 
@@ -380,17 +441,66 @@ import "module";
         },
         body: [
           {
-            key: '"key"',
-            value: '"value"',
+            type: 'TableDefinition',
+            key: { type: 'StringLiteral', value: '"key"' },
+            value: { type: 'StringLiteral', value: '"value"' },
           },
           {
-            key: '"key"',
-            value: '"value"',
+            type: 'TableDefinition',
+            key: { type: 'StringLiteral', value: '"key"' },
+            value: { type: 'StringLiteral', value: '"value"' },
           },
         ],
       } as TableStatement)
     })
 
+    it('should parse values of the declared type', () => {
+      expect(
+        parse(`
+        table routes BACKEND {
+          "/api": F_api,
+        }
+      `)
+      ).toMatchObject({
+        type: 'TableStatement',
+        valueType: 'BACKEND',
+        body: [{ value: { type: 'Identifier', name: 'F_api' } }],
+      })
+
+      expect(
+        parse(`
+        table limits INTEGER {
+          "a": 10,
+          "b": -0x1F,
+        }
+      `)
+      ).toMatchObject({
+        valueType: 'INTEGER',
+        body: [
+          { value: { type: 'NumericLiteral', number: 10 } },
+          { value: { type: 'NumericLiteral', number: -31 } },
+        ],
+      })
+    })
+
+    it('should not parse values of other types', () => {
+      expect(() =>
+        parse(`
+        table limits INTEGER {
+          "a": 1.5,
+        }
+      `)
+      ).toThrow('Expected a value of INTEGER but got NumericLiteral')
+
+      expect(() =>
+        parse(`
+        table names {
+          "a": F_api,
+        }
+      `)
+      ).toThrow('Expected a value of STRING but got Identifier')
+    })
+
     it('should parse with trailing comma of last value', () => {
       expect(
         parse(`
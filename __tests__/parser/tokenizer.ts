@@ -1,5 +1,6 @@
 import { Tokenizer } from '../../src/parser/tokenizer'
 import chalk from 'chalk'
+import { formatCodeFrame, VacelineSyntaxError } from '../../src/diagnostic'
 
 // for test readability
 const tokenize = (str: string) => new Tokenizer(str.trim()).tokenize()
@@ -263,6 +264,79 @@ llo"} "hello"
       expect(tokenize('100.01')).toMatchObject([
         { type: 'numeric', value: '100.01' },
       ])
+
+      expect(tokenize('.5 -.5')).toMatchObject([
+        { type: 'numeric', value: '.5' },
+        { type: 'numeric', value: '-.5' },
+      ])
+    })
+
+    it('should not tokenize numeric names in members as numeric', () => {
+      expect(tokenize('re.group.1')).toMatchObject([
+        { type: 'ident', value: 're' },
+        { type: 'symbol', value: '.' },
+        { type: 'ident', value: 'group' },
+        { type: 'symbol', value: '.' },
+        { type: 'numeric', value: '1' },
+      ])
+    })
+  })
+
+  describe('operator', () => {
+    it('should prefer the longest operator', () => {
+      expect(tokenize('<<= <= < ||= || !~ !')).toMatchObject(
+        ['<<=', '<=', '<', '||=', '||', '!~', '!'].map((value) => ({
+          type: 'operator',
+          value,
+        }))
+      )
+    })
+
+    it('should tokenize rotate operators before ident', () => {
+      expect(tokenize('var.hash rol= 8')).toMatchObject([
+        { type: 'ident', value: 'var' },
+        { type: 'symbol', value: '.' },
+        { type: 'ident', value: 'hash' },
+        { type: 'operator', value: 'rol=' },
+        { type: 'numeric', value: '8' },
+      ])
+    })
+
+    it('should tokenize rotate operators in names as ident', () => {
+      expect(tokenize('req.http.rol=1 req.http.ror=="a"')).toMatchObject([
+        { type: 'ident', value: 'req' },
+        { type: 'symbol', value: '.' },
+        { type: 'ident', value: 'http' },
+        { type: 'symbol', value: '.' },
+        { type: 'ident', value: 'rol' },
+        { type: 'operator', value: '=' },
+        { type: 'numeric', value: '1' },
+        { type: 'ident', value: 'req' },
+        { type: 'symbol', value: '.' },
+        { type: 'ident', value: 'http' },
+        { type: 'symbol', value: '.' },
+        { type: 'ident', value: 'ror' },
+        { type: 'operator', value: '==' },
+        { type: 'string', value: '"a"' },
+      ])
+    })
+  })
+
+  describe('position', () => {
+    it('should locate tokens after multiline tokens', () => {
+      expect(tokenize('/* a\n b */ c /* d */')).toMatchObject([
+        {
+          type: 'comment',
+          value: '/* a\n b */',
+          loc: { end: { line: 2, column: 5 } },
+        },
+        {
+          type: 'ident',
+          value: 'c',
+          loc: { start: { line: 2, column: 7 } },
+        },
+        { type: 'comment', value: '/* d */' },
+      ])
     })
   })
 
@@ -287,10 +361,10 @@ before/* comment */after
   })
 
   describe('error-handling', () => {
-    it('should emit SyntaxError', () => {
-      chalk.enabled = false
+    it('should emit SyntaxError with the diagnostic', () => {
+      let error: VacelineSyntaxError | undefined
 
-      expect(() =>
+      try {
         tokenize(
           `
 ident1
@@ -299,17 +373,53 @@ ident3 %%%
 ident4
 `
         )
-      ).toThrow(
-        `
-Invalid token: '%%%'
+      } catch (err) {
+        error = err
+      }
 
-  1 | ident1
-  2 | ident2
-> 3 | ident3 %%%
-             ^^^
-  4 | ident4
-      `.trim()
+      expect(error).toBeInstanceOf(SyntaxError)
+      expect(error?.message).toBe("Invalid token: '%%%'")
+      expect(error?.diagnostic).toMatchObject({
+        code: 'VCL1002',
+        name: 'InvalidToken',
+        severity: 'error',
+        start: { line: 3, column: 8 },
+        end: { line: 3, column: 10 },
+      })
+      expect(formatCodeFrame(error!.diagnostic)).toBe(
+        [
+          '  1 | ident1',
+          '  2 | ident2',
+          '> 3 | ident3 %%%',
+          '             ^^^',
+          '  4 | ident4',
+        ].join('\n')
       )
     })
+
+    it('should render code frames with options', () => {
+      let error: VacelineSyntaxError | undefined
+
+      try {
+        tokenize('ident1\nident2 %%%\nident3')
+      } catch (err) {
+        error = err
+      }
+
+      expect(formatCodeFrame(error!.diagnostic, { contextLines: 0 })).toBe(
+        '> 2 | ident2 %%%\n             ^^^'
+      )
+
+      const { enabled, level } = chalk
+      chalk.enabled = true
+      chalk.level = 1
+
+      expect(
+        formatCodeFrame(error!.diagnostic, { color: true, contextLines: 0 })
+      ).toMatch('\u001b[')
+
+      chalk.enabled = enabled
+      chalk.level = level
+    })
   })
 })
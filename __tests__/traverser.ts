@@ -4,7 +4,10 @@ import path from 'path'
 import { traverse, createPathArray } from '../src/traverser'
 import { parse } from '../src'
 import { NodePath } from '../src/traverser/path'
-import { Identifier } from '../src/nodes'
+import { Scope } from '../src/traverser/scope'
+import { Identifier, Statement, SubroutineStatement } from '../src/nodes'
+import { generate } from '../src/generator'
+import { buildStringLiteral } from '../src/utils/node'
 
 describe('Traverser', () => {
   const codePath = path.resolve('__tests__/__fixture__/rough.vcl')
@@ -26,6 +29,371 @@ describe('Traverser', () => {
     expect(node!.type).toStrictEqual('Identifier')
   })
 
+  describe('Visitor', () => {
+    const ast = parse(`
+sub vcl_recv {
+  if (req.http.A) {
+    set req.http.B = "b";
+  }
+  set req.http.C = "c";
+}
+`)
+
+    it('should call visitors keyed by node type', () => {
+      const visited: Array<string> = []
+
+      traverse(ast, {
+        SetStatement(path) {
+          visited.push(path.node.type)
+        },
+        IfStatement: {
+          enter(path) {
+            visited.push(path.node.type)
+          },
+        },
+      })
+
+      expect(visited).toStrictEqual([
+        'IfStatement',
+        'SetStatement',
+        'SetStatement',
+      ])
+    })
+
+    it('should call visitors for multiple types joined with `|`', () => {
+      const visited: Array<string> = []
+
+      traverse(ast, {
+        'IfStatement|SubroutineStatement'(path) {
+          visited.push(path.node.type)
+        },
+      })
+
+      expect(visited).toStrictEqual(['SubroutineStatement', 'IfStatement'])
+    })
+
+    it('should call `exit` after the children are visited', () => {
+      const visited: Array<string> = []
+
+      traverse(ast, {
+        enter(path) {
+          if (path.node.type !== 'Identifier') return
+          visited.push(path.node.name)
+        },
+        SubroutineStatement: {
+          enter() {
+            visited.push('enter sub')
+          },
+          exit(path) {
+            visited.push('exit sub')
+            expect(path.node.body).toHaveLength(2)
+          },
+        },
+        IfStatement: {
+          exit() {
+            visited.push('exit if')
+          },
+        },
+      })
+
+      expect(visited).toStrictEqual([
+        'enter sub',
+        'vcl_recv',
+        'req',
+        'http',
+        'A',
+        'req',
+        'http',
+        'B',
+        'exit if',
+        'req',
+        'http',
+        'C',
+        'exit sub',
+      ])
+    })
+
+    it('should pass the state as `this`', () => {
+      const state = { subs: [] as Array<string> }
+
+      traverse<typeof state>(
+        ast,
+        {
+          SubroutineStatement({ node }: NodePath<SubroutineStatement>) {
+            this.subs.push(node.id.name)
+          },
+        },
+        { parent: null, parentPath: null, inList: false, state }
+      )
+
+      expect(state.subs).toStrictEqual(['vcl_recv'])
+    })
+  })
+
+  describe('Visitor keys', () => {
+    it('should traverse children in the declared order', () => {
+      const ast = parse(`
+# leading comment
+sub vcl_recv {
+  if (req.http.A) { # trailing comment
+    restart;
+  } else {
+    error 404 "Not Found";
+  }
+}
+`)
+      const visited: Array<string> = []
+
+      traverse(ast, {
+        enter(path) {
+          visited.push(`${path.parentKey ?? ''}:${path.node.type}`)
+        },
+      })
+
+      // comments are not nodes to be traversed
+      expect(visited).toStrictEqual([
+        ':Program',
+        'body:SubroutineStatement',
+        'id:Identifier',
+        'body:IfStatement',
+        'test:Member',
+        'base:Member',
+        'base:Identifier',
+        'member:Identifier',
+        'member:Identifier',
+        'consequent:RestartStatement',
+        'alternative:ErrorStatement',
+        'message:StringLiteral',
+      ])
+    })
+
+    it('should reject unknown node types in visitors', () => {
+      expect(() =>
+        traverse(ast, {
+          'IfStatement|ElseStatement'() {
+            // noop
+          },
+        })
+      ).toThrow(/Unknown node type in visitor: 'ElseStatement'/)
+    })
+  })
+
+  describe('Manipulation', () => {
+    const source = `
+sub vcl_recv {
+  set req.http.A = "a";
+  set req.http.B = "b";
+  set req.http.C = "c";
+}
+`
+    const restart: Statement = { type: 'RestartStatement' }
+    const log = (name: string): Statement => ({
+      type: 'LogStatement',
+      content: buildStringLiteral(name),
+    })
+    const headerOf = (path: NodePath) =>
+      path.node.type === 'SetStatement' && path.node.left.type === 'Member'
+        ? path.node.left.member.name
+        : null
+
+    it('should set keys of the path', () => {
+      const ast = parse(source)
+      const keys: Array<unknown> = []
+
+      traverse(ast, {
+        SetStatement(path) {
+          keys.push([path.parentKey, path.listKey, path.key, path.inList])
+        },
+        Member(path) {
+          if (path.parent?.type === 'SetStatement') {
+            keys.push([path.parentKey, path.listKey, path.key, path.inList])
+          }
+        },
+      })
+
+      expect(keys).toStrictEqual([
+        ['body', 'body', 0, true],
+        ['left', undefined, undefined, false],
+        ['body', 'body', 1, true],
+        ['left', undefined, undefined, false],
+        ['body', 'body', 2, true],
+        ['left', undefined, undefined, false],
+      ])
+    })
+
+    it('should replace a node and visit the new one', () => {
+      const ast = parse(source)
+      const visited: Array<string> = []
+
+      traverse(ast, {
+        SetStatement(path) {
+          if (headerOf(path) === 'B') path.replaceWith(log('b'))
+        },
+        LogStatement() {
+          visited.push('log')
+        },
+      })
+
+      expect(visited).toStrictEqual(['log'])
+      expect(generate(ast).code).toBe(
+        'sub vcl_recv {\n  set req.http.A = "a";\n  log "b";\n  set req.http.C = "c";\n}'
+      )
+    })
+
+    it('should replace a node with multiple nodes', () => {
+      const ast = parse(source)
+
+      traverse(ast, {
+        SetStatement(path) {
+          if (headerOf(path) === 'A') {
+            path.replaceWithMultiple([log('a1'), log('a2')])
+          }
+        },
+      })
+
+      expect(
+        (ast.body[0] as SubroutineStatement).body.map((n) => n.type)
+      ).toStrictEqual([
+        'LogStatement',
+        'LogStatement',
+        'SetStatement',
+        'SetStatement',
+      ])
+    })
+
+    it('should visit nodes inserted during the traversal', () => {
+      const ast = parse(source)
+      const visited: Array<string> = []
+
+      traverse(ast, {
+        SetStatement(path) {
+          visited.push(headerOf(path) as string)
+
+          if (headerOf(path) === 'B') {
+            path.insertBefore(log('before'))
+            path.insertAfter([log('after'), restart])
+          }
+        },
+        LogStatement({ node }) {
+          if (node.content.type === 'StringLiteral') {
+            visited.push(node.content.value)
+          }
+        },
+        RestartStatement() {
+          visited.push('restart')
+        },
+      })
+
+      expect(visited).toStrictEqual([
+        'A',
+        'B',
+        '"before"',
+        '"after"',
+        'restart',
+        'C',
+      ])
+      expect(
+        (ast.body[0] as SubroutineStatement).body.map((n) => n.type)
+      ).toStrictEqual([
+        'SetStatement',
+        'LogStatement',
+        'SetStatement',
+        'LogStatement',
+        'RestartStatement',
+        'SetStatement',
+      ])
+    })
+
+    it('should remove nodes during the traversal', () => {
+      const ast = parse(source)
+      const visited: Array<string> = []
+
+      traverse(ast, {
+        SetStatement: {
+          enter(path) {
+            visited.push(headerOf(path) as string)
+
+            if (headerOf(path) !== 'C') path.remove()
+          },
+          exit(path) {
+            visited.push('exit ' + headerOf(path))
+          },
+        },
+      })
+
+      // removed nodes are neither traversed into nor exited
+      expect(visited).toStrictEqual(['A', 'B', 'C', 'exit C'])
+      expect(generate(ast).code).toBe(
+        'sub vcl_recv {\n  set req.http.C = "c";\n}'
+      )
+    })
+
+    it('should add nodes to the lists of the node', () => {
+      const ast = parse(source)
+
+      traverse(ast, {
+        SubroutineStatement(path) {
+          path.unshiftContainer('body', log('first'))
+          path.pushContainer('body', [log('last')])
+        },
+      })
+
+      expect(
+        (ast.body[0] as SubroutineStatement).body.map((n) => n.type)
+      ).toStrictEqual([
+        'LogStatement',
+        'SetStatement',
+        'SetStatement',
+        'SetStatement',
+        'LogStatement',
+      ])
+    })
+
+    it('should not insert next to a node not in a list', () => {
+      const ast = parse(source)
+
+      expect(() =>
+        traverse(ast, {
+          Member(path) {
+            path.insertAfter(restart)
+          },
+        })
+      ).toThrow(/not in a list/)
+    })
+
+    it('should skip the children', () => {
+      const ast = parse(source)
+      const visited: Array<string> = []
+
+      traverse(ast, {
+        SetStatement(path) {
+          if (headerOf(path) === 'B') path.skip()
+        },
+        Identifier({ node }) {
+          visited.push(node.name)
+        },
+      })
+
+      expect(visited).not.toContain('B')
+      expect(visited).toContain('C')
+    })
+
+    it('should stop the traversal', () => {
+      const ast = parse(source)
+      const visited: Array<string> = []
+
+      traverse(ast, {
+        SetStatement(path) {
+          visited.push(headerOf(path) as string)
+
+          if (headerOf(path) === 'B') path.stop()
+        },
+      })
+
+      expect(visited).toStrictEqual(['A', 'B'])
+    })
+  })
+
   describe('Path', () => {
     const paths = createPathArray(ast)
 
@@ -56,4 +424,300 @@ describe('Traverser', () => {
       expect(paths).toMatchObject(traversalResults)
     })
   })
+
+  describe('Scope', () => {
+    const ast = parse(`
+acl internal {
+  "10.0.0.0"/8;
+}
+
+table redirects {
+  "/old": "/new",
+}
+
+backend F_origin {
+  .host = "example.com";
+}
+
+sub set_backend {
+  set req.backend = F_origin;
+}
+
+sub vcl_recv {
+  declare local var.path STRING;
+  declare local var.count INTEGER;
+
+  set var.path = table.lookup(redirects, req.url.path);
+  set var.count = 1;
+
+  if (client.ip ~ internal && var.path) {
+    unset var.path;
+  }
+
+  call set_backend;
+  call undefined_sub;
+}
+`)
+
+    const scopeOf = (type: string, name?: string) => {
+      let found: NodePath | undefined
+
+      traverse(ast, {
+        enter(path) {
+          if (found || path.node.type !== type) return
+          if (
+            name &&
+            !(
+              path.node.type === 'SubroutineStatement' &&
+              path.node.id.name === name
+            )
+          )
+            return
+
+          found = path
+        },
+      })
+
+      return found!.scope
+    }
+
+    it('should find the closest scope', () => {
+      expect(scopeOf('Program').kind).toBe('program')
+      expect(scopeOf('AclStatement').kind).toBe('program')
+      expect(scopeOf('SetStatement').kind).toBe('subroutine')
+      expect(scopeOf('SetStatement').parent).toBe(scopeOf('Program'))
+    })
+
+    it('should bind local variables with their types', () => {
+      const scope = scopeOf('SubroutineStatement', 'vcl_recv')
+      const binding = scope.getBinding('var.path')!
+
+      expect(binding.kind).toBe('local')
+      expect(binding.valueType).toBe('STRING')
+      expect(binding.path.node.type).toBe('DeclareStatement')
+      expect(scope.isDeclared('var.count')).toBe(true)
+      expect(scope.isDeclared('var.nope')).toBe(false)
+    })
+
+    it('should track references & assignments of locals', () => {
+      const scope = scopeOf('SubroutineStatement', 'vcl_recv')
+      const path = scope.getBinding('var.path')!
+      const count = scope.getBinding('var.count')!
+
+      expect(path.references.map((ref) => ref.isAssignment)).toStrictEqual([
+        true,
+        false,
+        true,
+      ])
+      expect(path.assignments).toHaveLength(2)
+      expect(path.referenced).toBe(true)
+      expect(count.assignments).toHaveLength(1)
+      expect(count.referenced).toBe(false)
+    })
+
+    it('should bind program-level declarations', () => {
+      const scope = scopeOf('Program')
+
+      expect(
+        [...scope.bindings.values()].map(({ name, kind }) => ({ name, kind }))
+      ).toStrictEqual([
+        { name: 'internal', kind: 'acl' },
+        { name: 'redirects', kind: 'table' },
+        { name: 'F_origin', kind: 'backend' },
+        { name: 'set_backend', kind: 'subroutine' },
+        { name: 'vcl_recv', kind: 'subroutine' },
+      ])
+    })
+
+    it('should track references of program-level declarations', () => {
+      const scope = scopeOf('Program')
+      const names = ['internal', 'redirects', 'F_origin', 'set_backend']
+
+      for (const name of names) {
+        expect(scope.getBinding(name)!.references).toHaveLength(1)
+      }
+
+      // lookups from subroutines fall back to the program
+      expect(scopeOf('SetStatement').getBinding('F_origin')!.kind).toBe(
+        'backend'
+      )
+    })
+
+    it('should bind penaltyboxes & ratecounters', () => {
+      const ast = parse(`
+penaltybox banned {}
+ratecounter counter {}
+
+sub vcl_recv {
+  if (ratelimit.check_rate(client.ip, counter, 1, 10, 100, banned, 2m)) {
+    error 429;
+  }
+}
+`)
+      let scope: Scope | undefined
+
+      traverse(ast, {
+        Program(path) {
+          scope = path.scope
+        },
+      })
+
+      expect(scope!.getBinding('banned')).toMatchObject({
+        kind: 'penaltybox',
+        references: [{ name: 'banned' }],
+      })
+      expect(scope!.getBinding('counter')).toMatchObject({
+        kind: 'ratecounter',
+        references: [{ name: 'counter' }],
+      })
+    })
+
+    it('should not reference variables passed to functions', () => {
+      const ast = parse(`
+table ttls INTEGER {
+  "/": 60,
+}
+
+sub vcl_recv {
+  set req.http.X-Expires = time.add(now, 1s);
+  set req.http.X-TTL = table.lookup_integer(ttls, req.url.path, 0);
+}
+`)
+      let scope: Scope | undefined
+
+      traverse(ast, {
+        Program(path) {
+          scope = path.scope
+        },
+      })
+
+      expect(
+        scope!.references.map(({ name, binding }) => [name, !!binding])
+      ).toStrictEqual([['ttls', true]])
+    })
+
+    it('should reference backends of directors', () => {
+      const ast = parse(`
+backend F_a {}
+backend F_b {}
+
+director the_dir random {
+  .quorum = 50%;
+  { .backend = F_a; .weight = 2; }
+  { .backend = F_b; .weight = 1; }
+}
+
+sub vcl_recv {
+  set req.backend = the_dir;
+}
+`)
+      let scope: Scope | undefined
+
+      traverse(ast, {
+        Program(path) {
+          scope = path.scope
+        },
+      })
+
+      expect(scope!.getBinding('F_a')!.references).toHaveLength(1)
+      expect(scope!.getBinding('F_b')!.references).toHaveLength(1)
+      expect(scope!.getBinding('the_dir')).toMatchObject({
+        kind: 'director',
+        references: [{ name: 'the_dir' }],
+      })
+    })
+
+    it('should reference backends & acls of typed tables', () => {
+      const ast = parse(`
+backend F_api {}
+acl internal {}
+
+table routes BACKEND {
+  "/api": F_api,
+}
+
+table acls ACL {
+  "/admin": internal,
+}
+`)
+      let scope: Scope | undefined
+
+      traverse(ast, {
+        Program(path) {
+          scope = path.scope
+        },
+      })
+
+      expect(scope!.getBinding('F_api')!.references).toHaveLength(1)
+      expect(scope!.getBinding('internal')!.references).toHaveLength(1)
+    })
+
+    it('should reference typed subroutines called as functions', () => {
+      const ast = parse(`
+sub is_mobile BOOL {
+  return true;
+}
+
+sub vcl_recv {
+  if (is_mobile()) {
+    set req.http.X-Mobile = "1";
+  }
+}
+`)
+      let scope: Scope | undefined
+
+      traverse(ast, {
+        Program(path) {
+          scope = path.scope
+        },
+      })
+
+      expect(scope!.getBinding('is_mobile')!.references).toMatchObject([
+        { path: { parent: { type: 'FunCallExpression' } } },
+      ])
+    })
+
+    it('should bind labels within the subroutine', () => {
+      const ast = parse(`
+sub vcl_recv {
+  goto done;
+  goto missing;
+  done:
+}
+
+sub done {}
+`)
+      let scope: Scope | undefined
+
+      traverse(ast, {
+        GotoStatement(path) {
+          scope = path.scope
+        },
+      })
+
+      const binding = scope!.getOwnBinding('done')!
+
+      expect(binding.kind).toBe('label')
+      expect(binding.path.node.type).toBe('LabelStatement')
+      expect(binding.references).toHaveLength(1)
+      // not resolved to the subroutine with the same name
+      expect(
+        scope!.references.map(({ name, binding }) => ({
+          name,
+          kind: binding?.kind,
+        }))
+      ).toStrictEqual([
+        { name: 'done', kind: 'label' },
+        { name: 'missing', kind: undefined },
+      ])
+    })
+
+    it('should keep undeclared references', () => {
+      const undeclared = scopeOf('Program').references.filter(
+        (ref) => !ref.binding
+      )
+
+      expect(undeclared.map((ref) => ref.name)).toStrictEqual(['undefined_sub'])
+    })
+  })
 })
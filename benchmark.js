@@ -1,22 +1,69 @@
 const fs = require('fs')
 const path = require('path')
+const v8 = require('v8')
 
 const Bench = require('benchmark')
 
-const { parse } = require('./dist')
+// the build to measure, e.g. of an older commit to compare with
+const dist = path.resolve(process.argv[2] || 'dist')
+
+const { parse } = require(dist)
+const { traverseNode } = require(path.join(dist, 'traverser'))
 
 const code = fs.readFileSync(
   path.resolve('__tests__/__fixture__/rough.vcl'),
   'utf8'
 )
 
+const ast = parse(code)
+
+// Heap allocated by a walk over a large AST, adding back what the
+// garbage collections in between freed, needs `--expose-gc`
+const largeAst = parse(code.repeat(100))
+const walks = 10
+
+const measureAllocation = (name, walk) => {
+  const profiler = new v8.GCProfiler()
+
+  global.gc()
+
+  const before = v8.getHeapStatistics().used_heap_size
+
+  profiler.start()
+
+  for (let i = 0; i < walks; i++) walk(largeAst)
+
+  const { statistics } = profiler.stop()
+  const after = v8.getHeapStatistics().used_heap_size
+  const freed = statistics.reduce(
+    (acc, { beforeGC, afterGC }) =>
+      acc +
+      beforeGC.heapStatistics.usedHeapSize -
+      afterGC.heapStatistics.usedHeapSize,
+    0
+  )
+  const allocated = Math.round((after - before + freed) / walks / 1024)
+
+  console.log(
+    `${name} x ${allocated.toLocaleString('en-US')} KB allocated per walk (${
+      statistics.length
+    } GCs in ${walks} walks)`
+  )
+}
+
 const suite = new Bench.Suite()
 
 suite
   .add('parse', () => {
     parse(code)
   })
+  .add('traverse', () => {
+    traverseNode(ast, () => {})
+  })
   .on('cycle', (event) => {
     console.log(String(event.target))
   })
+  .on('complete', () => {
+    measureAllocation('traverse', (node) => traverseNode(node, () => {}))
+  })
   .run({ async: true })
@@ -1,7 +1,6 @@
 import * as path from 'path'
 import * as fs from 'fs'
 import { wrap as wrapRaw } from 'jest-snapshot-serializer-raw'
-import stripAnsi from 'strip-ansi'
 
 import { parse as parseNode } from '../src'
 import { Parser } from '../src/parser'
@@ -10,6 +9,8 @@ import { parseStmt } from '../src/parser/statement'
 import { generate } from '../src/lib'
 import { Tokenizer } from '../src/parser/tokenizer'
 import { Node } from '../src/nodes'
+import { formatDiagnostic, VacelineSyntaxError } from '../src/diagnostic'
+import { Dialect } from '../src/parser/keywords'
 
 type Parse = (source: string) => Node
 
@@ -130,7 +131,9 @@ const runErrorTest = ({ caseName, parse, source }: Args) => {
 
       throw new Error('Function did not throw')
     } catch (err) {
-      expect(wrapRaw(stripAnsi(err.message))).toMatchSnapshot()
+      if (!(err instanceof VacelineSyntaxError)) throw err
+
+      expect(wrapRaw(formatDiagnostic(err.diagnostic))).toMatchSnapshot()
     }
   })
 }
@@ -139,4 +142,8 @@ export const parsers = {
   expr: (source: string) => parseExpr(new Parser(source)),
   stmt: (source: string) => parseStmt(new Parser(source)),
   node: parseNode.bind(null),
+  varnishStmt: (source: string) =>
+    parseStmt(new Parser(source, { dialect: 'varnish6' })),
+  dialect: (dialect: Dialect) => (source: string) =>
+    parseNode(source, { dialect }),
 }
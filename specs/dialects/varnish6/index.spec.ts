@@ -0,0 +1,5 @@
+import { runSpec, parsers } from '../../__helper__'
+
+runSpec(__dirname, {
+  parser: parsers.dialect('varnish6'),
+})
@@ -12,7 +12,8 @@ import debug from 'debug'
 import { optionParser, CliOptions } from './options'
 import * as utils from './utils'
 
-import { parse, transformFile } from '..'
+import { parse, transformFile, formatChange } from '..'
+import { formatDiagnostic, VacelineSyntaxError } from '../diagnostic'
 
 const console = new Console(process.stderr, process.stderr)
 
@@ -27,8 +28,29 @@ function createStream(...strs: Array<string>) {
   return readable
 }
 
-async function main(opts: CliOptions) {
+function getOutputPath(opts: CliOptions, filePath: string): string {
+  const additionalExt = opts.ast ? '.json' : ''
+
+  return (
+    path.join(
+      opts.outDir,
+      opts.source
+        ? path.join(
+            opts.source === filePath
+              ? // input source is a file
+                path.basename(filePath)
+              : // input source is a directory, keep nested structure
+                path.relative(opts.source, filePath)
+          )
+        : // input is from stdin so we cannot determine the filename
+          'index.vcl'
+    ) + additionalExt
+  )
+}
+
+async function main(opts: CliOptions & { _: Array<string> }) {
   const shouldOutputToFile = !!opts.outDir
+  const isConverting = opts._[0] === 'convert'
 
   if (opts.debug === true) {
     debug.enable('vaceline:*')
@@ -55,33 +77,62 @@ async function main(opts: CliOptions) {
         ? 'stdin'
         : path.relative(path.resolve(), filePath)
 
+    const outputPath = shouldOutputToFile && getOutputPath(opts, filePath)
+
     if (!opts.silent) console.time(readablePath)
 
-    const output = opts.ast
-      ? JSON.stringify(parse(fs.readFileSync(filePath, 'utf8')), null, 2)
-      : transformFile(filePath, opts).code
+    let output: string
+    let map: string | undefined
+
+    if (opts.ast) {
+      output = JSON.stringify(
+        parse(fs.readFileSync(filePath, 'utf8'), {
+          dialect: isConverting ? opts.from : opts.dialect,
+        }),
+        null,
+        2
+      )
+    } else {
+      const result = transformFile(filePath, {
+        ...opts,
+        // source maps can only be written next to output files
+        sourceMaps: !!outputPath && opts.sourceMaps,
+        // the map is read from next to the output file
+        sourceFileName:
+          outputPath && filePath !== '/dev/stdin'
+            ? path.relative(path.dirname(outputPath), filePath)
+            : readablePath,
+        sourceMapTarget: outputPath ? path.basename(outputPath) : '',
+        ...(isConverting && { dialect: opts.from, convertTo: opts.to }),
+      })
+
+      output = result.code
+      map = result.map
+
+      if (!opts.silent) {
+        for (const diagnostic of result.diagnostics) {
+          console.error(
+            formatDiagnostic(diagnostic, { color: !!process.stderr.isTTY })
+          )
+        }
+
+        for (const change of result.changes) {
+          console.error(`${readablePath}:${formatChange(change)}`)
+        }
+      }
+    }
 
     if (!opts.silent) console.timeEnd(readablePath)
 
-    if (shouldOutputToFile) {
-      const additionalExt = opts.ast ? '.json' : ''
-
-      const outputPath =
-        path.join(
-          opts.outDir,
-          opts.source
-            ? path.join(
-                opts.source === filePath
-                  ? // input source is a file
-                    path.basename(filePath)
-                  : // input source is a directory, keep nested structure
-                    path.relative(opts.source, filePath)
-              )
-            : // input is from stdin so we cannot determine the filename
-              'index.vcl'
-        ) + additionalExt
-
-      writings.push(writeFile(outputPath, output))
+    if (outputPath) {
+      writings.push(
+        map
+          ? Promise.all([
+              writeFile(outputPath, output),
+              writeFile(outputPath + '.map', map),
+            ]).then(() => undefined)
+          : writeFile(outputPath, output)
+      )
 
       continue
     }
@@ -103,7 +154,17 @@ async function main(opts: CliOptions) {
 
 const opts = optionParser.argv
 
-const logError = (err: Error) => opts.silent || console.error(err.stack)
+const logError = (err: Error) => {
+  if (opts.silent) return
+
+  if (err instanceof VacelineSyntaxError) {
+    console.error(
+      formatDiagnostic(err.diagnostic, { color: !!process.stderr.isTTY })
+    )
+  } else {
+    console.error(err.stack)
+  }
+}
 // eslint-disable-next-line
 // @ts-ignore wrong type info for `process.on` in node/global.d.ts
 process.on('unhandledRejection', logError)
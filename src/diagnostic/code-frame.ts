@@ -0,0 +1,87 @@
+import * as chalk from '../utils/chalk'
+import { VacelineDiagnostic } from '.'
+
+const HORIZONTAL_MARK = '> '
+const VERTICAL_MARK = '^'
+
+export interface CodeFrameOptions {
+  color: boolean
+  // number of lines shown above & below the line of the diagnostic
+  contextLines: number
+  // defaults to the source the diagnostic was created with
+  source: string
+}
+
+const identity = (s: string) => s
+
+/**
+ * Render the lines around the diagnostic with its range marked, e.g.
+ *
+ *   1 | sub vcl_recv {
+ * > 2 |   error "404";
+ *             ^^^^^
+ *   3 | }
+ */
+export function formatCodeFrame(
+  diagnostic: VacelineDiagnostic,
+  {
+    color = false,
+    contextLines = 2,
+    source = diagnostic.source,
+  }: Partial<CodeFrameOptions> = {}
+): string {
+  if (source === undefined) return ''
+
+  const red = color ? chalk.red : identity
+  const gray = color ? chalk.gray : identity
+
+  const { start, end } = diagnostic
+  const lines = source.split('\n')
+
+  const top = Math.max(1, start.line - contextLines)
+  const bottom = Math.min(lines.length, start.line + contextLines)
+  const gutterWidth = String(bottom).length
+
+  const frame: Array<string> = []
+
+  for (let lineNumber = top; lineNumber <= bottom; lineNumber++) {
+    const line = lines[lineNumber - 1]
+    const gutter = gray(String(lineNumber).padStart(gutterWidth) + ' | ')
+
+    if (lineNumber !== start.line) {
+      frame.push(' '.repeat(HORIZONTAL_MARK.length) + gutter + line)
+
+      continue
+    }
+
+    // a range over multiple lines is marked until the end of the first line
+    const length =
+      end.line === start.line
+        ? end.offset + 1 - start.offset
+        : line.length - start.column + 1
+
+    frame.push(
+      red(HORIZONTAL_MARK) + gutter + line,
+      ' '.repeat(HORIZONTAL_MARK.length + gutterWidth + 3 + start.column - 1) +
+        red(VERTICAL_MARK.repeat(Math.max(1, length)))
+    )
+  }
+
+  return frame.join('\n')
+}
+
+// The code, the message, the code frame and the hint
+export function formatDiagnostic(
+  diagnostic: VacelineDiagnostic,
+  options: Partial<CodeFrameOptions> = {}
+): string {
+  const { code, name, message, hint } = diagnostic
+  const frame = formatCodeFrame(diagnostic, options)
+
+  let formatted = `${code} ${name}: ${message}`
+
+  if (frame) formatted += '\n\n' + frame + '\n'
+  if (hint) formatted += '\n' + 'hint: ' + hint + '\n'
+
+  return formatted
+}
@@ -0,0 +1,114 @@
+import { Location, Position } from '../nodes'
+
+export {
+  formatCodeFrame,
+  formatDiagnostic,
+  CodeFrameOptions,
+} from './code-frame'
+
+/**
+ * Stable codes for each kind of diagnostic, which never change once
+ * published so that tools can depend on them
+ */
+export const diagnosticCodes = {
+  UnexpectedToken: 'VCL1001',
+  InvalidToken: 'VCL1002',
+  UnexpectedEOF: 'VCL1003',
+  UnclosedBlock: 'VCL1004',
+  UnexpectedNode: 'VCL1005',
+  InvalidNumber: 'VCL1006',
+  InvalidIp: 'VCL1007',
+  InvalidReturnAction: 'VCL1008',
+  UnsupportedStatement: 'VCL1009',
+  UnsupportedExpression: 'VCL1010',
+  InvalidOperator: 'VCL1011',
+  InvalidEscape: 'VCL1012',
+  InvalidRegex: 'VCL1013',
+  MissingBackend: 'VCL1014',
+  TypeMismatch: 'VCL1015',
+  MisplacedStatement: 'VCL1016',
+
+  // from the linter
+  NestedQuantifier: 'VCL2001',
+  OverlappingAlternation: 'VCL2002',
+  UnanchoredWildcard: 'VCL2003',
+  MissingFastlyMacro: 'VCL2004',
+
+  // from transforms
+  ShadowedAclEntry: 'VCL3001',
+} as const
+
+export type DiagnosticName = keyof typeof diagnosticCodes
+export type DiagnosticCode = typeof diagnosticCodes[DiagnosticName]
+
+export type Severity = 'error' | 'warning'
+
+export interface DiagnosticOptions {
+  name: DiagnosticName
+  message: string
+  start: Position
+  end: Position
+  hint?: string
+  severity?: Severity
+  // the source the positions point to, used to render code frames
+  source?: string
+}
+
+// kept out of the instances so that the whole source isn't serialized
+// together with every diagnostic
+const sources = new WeakMap<VacelineDiagnostic, string>()
+
+export class VacelineDiagnostic {
+  code: DiagnosticCode
+  name: DiagnosticName
+  message: string
+  start: Position
+  end: Position
+  hint?: string
+  severity: Severity
+
+  constructor({
+    name,
+    message,
+    start,
+    end,
+    hint,
+    severity = 'error',
+    source,
+  }: DiagnosticOptions) {
+    this.code = diagnosticCodes[name]
+    this.name = name
+    this.message = message
+    this.start = start
+    this.end = end
+    this.hint = hint
+    this.severity = severity
+
+    if (source !== undefined) sources.set(this, source)
+  }
+
+  get source(): string | undefined {
+    return sources.get(this)
+  }
+
+  get loc(): Location {
+    return { start: this.start, end: this.end }
+  }
+
+  toString(): string {
+    const { line, column } = this.start
+
+    return `${this.code} ${this.name}: ${this.message} (${line}:${column})`
+  }
+}
+
+// Thrown by the parser, with the diagnostic as data
+export class VacelineSyntaxError extends SyntaxError {
+  diagnostic: VacelineDiagnostic
+
+  constructor(diagnostic: VacelineDiagnostic) {
+    super(diagnostic.message)
+
+    this.diagnostic = diagnostic
+  }
+}
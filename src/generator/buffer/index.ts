@@ -1,3 +1,5 @@
+import { SourceMap } from '../source-map'
+
 export interface SourcePosition {
   identifierName?: string
   line: number
@@ -8,6 +10,7 @@ export interface SourcePosition {
 export class Buffer {
   private buf: Array<string> = []
   private innerQueue: Array<string> = []
+  private map: SourceMap | null
 
   position: { line: number; column: number } = {
     line: 1,
@@ -21,6 +24,10 @@ export class Buffer {
     // filename: ,
   }
 
+  constructor(map: SourceMap | null = null) {
+    this.map = map
+  }
+
   getBuf(): ReadonlyArray<string> {
     return this.buf
   }
@@ -78,6 +85,7 @@ export class Buffer {
   moveCursor(str: string, source?: SourcePosition) {
     if (source) {
       this.sourcePosition = source
+      this.map?.mark(this.position, source)
     }
 
     const lines = str.split('\n')
@@ -86,8 +94,8 @@ export class Buffer {
     this.position.line += lineDelta
 
     const lastLine = lines[lineDelta]
-    if (lastLine.length == 0) {
-      this.position.column = 0
+    if (lineDelta > 0) {
+      this.position.column = lastLine.length
     } else {
       this.position.column += lastLine.length
     }
@@ -1,29 +1,86 @@
 import { printer, PrinterOptions } from 'prettier/doc'
 import { Node } from '../nodes'
-import { printNode } from './printAST'
+import { printNode, printWithMarkers } from './printAST'
+import { Buffer, SourcePosition } from './buffer'
+import { MarkerRegistry, SourceMap } from './source-map'
 
-export type GenerateOptions = {} & PrinterOptions
+export type GenerateOptions = {
+  sourceMaps: boolean
+  sourceFileName: string
+  sourceRoot: string
+  // `file` of the source map, the name of the generated file
+  sourceMapTarget: string
+} & PrinterOptions
 
 const defaultGenerateOptions: GenerateOptions = {
   printWidth: 100,
   tabWidth: 2,
   useTabs: false,
+  sourceMaps: false,
+  sourceFileName: 'unknown',
+  sourceRoot: '',
+  sourceMapTarget: '',
 }
 
 export function generate(
   ast: Node,
   options: Partial<GenerateOptions> = defaultGenerateOptions
 ): { code: string; map?: string } {
+  const printerOptions = {
+    printWidth: options.printWidth ?? defaultGenerateOptions.printWidth,
+    tabWidth: options.tabWidth ?? defaultGenerateOptions.tabWidth,
+    useTabs: options.useTabs ?? defaultGenerateOptions.useTabs,
+  }
+
+  if (!options.sourceMaps) {
+    const { formatted } = printer.printDocToString(
+      printNode(ast, {
+        lineNum: 1,
+      }),
+      printerOptions
+    )
+
+    return { code: formatted }
+  }
+
+  const markers = new MarkerRegistry()
+  const map = new SourceMap({
+    file: options.sourceMapTarget || undefined,
+    sourceRoot: options.sourceRoot || undefined,
+  })
+
   const { formatted } = printer.printDocToString(
-    printNode(ast, {
-      lineNum: 1,
-    }),
-    {
-      printWidth: options.printWidth ?? defaultGenerateOptions.printWidth,
-      tabWidth: options.tabWidth ?? defaultGenerateOptions.tabWidth,
-      useTabs: options.useTabs ?? defaultGenerateOptions.useTabs,
+    printWithMarkers(markers, () =>
+      printNode(ast, {
+        lineNum: 1,
+      })
+    ),
+    printerOptions
+  )
+
+  const buffer = new Buffer(map)
+  const filename =
+    options.sourceFileName ?? defaultGenerateOptions.sourceFileName
+
+  // consecutive markers are for nested nodes, the innermost one wins
+  let source: SourcePosition | undefined
+
+  markers.consume(
+    formatted,
+    (text) => {
+      buffer.append(text, source)
+      source = undefined
+    },
+    (loc, identifierName) => {
+      source = {
+        identifierName,
+        line: loc.start.line,
+        // source maps take 0-based columns
+        column: loc.start.column - 1,
+        filename,
+      }
     }
   )
 
-  return { code: formatted }
+  return { code: buffer.get(), map: map.toString() }
 }
@@ -1,6 +1,7 @@
 import { Doc, builders as b } from 'prettier/doc'
 import { Node, isLocated, Located } from '../nodes'
 import * as d from '../nodes'
+import { MarkerRegistry } from './source-map'
 
 export function printNode(node: Node, options?: object): Doc {
   switch (node.type) {
@@ -13,22 +14,44 @@ export function printNode(node: Node, options?: object): Doc {
       return printAddStatement(node, options)
     case 'BackendStatement':
       return printBackendStatement(node, options)
+    case 'BogusStatement':
+      return printBogusStatement(node, options)
     case 'CallStatement':
       return printCallStatement(node, options)
     case 'DeclareStatement':
       return printDeclareStatement(node, options)
     case 'ErrorStatement':
       return printErrorStatement(node, options)
+    case 'EsiStatement':
+      return printEsiStatement(node, options)
     case 'ExpressionStatement':
       return printExpressionStatement(node, options)
+    case 'FastlyMacroStatement':
+      return printFastlyMacroStatement(node, options)
+    case 'GotoStatement':
+      return printGotoStatement(node, options)
     case 'IfStatement':
       return printIfStatement(node, options)
     case 'ImportStatement':
       return printImportStatement(node, options)
     case 'IncludeStatement':
       return printIncludeStatement(node, options)
+    case 'InlineCStatement':
+      return printInlineCStatement(node, options)
+    case 'LabelStatement':
+      return printLabelStatement(node, options)
     case 'LogStatement':
       return printLogStatement(node, options)
+    case 'NewStatement':
+      return printNewStatement(node, options)
+    case 'PenaltyboxStatement':
+      return printPenaltyboxStatement(node, options)
+    case 'PragmaStatement':
+      return printPragmaStatement(node, options)
+    case 'ProbeStatement':
+      return printProbeStatement(node, options)
+    case 'RatecounterStatement':
+      return printRatecounterStatement(node, options)
     case 'RestartStatement':
       return printRestartStatement(node, options)
     case 'ReturnStatement':
@@ -39,10 +62,14 @@ export function printNode(node: Node, options?: object): Doc {
       return printSubroutineStatement(node, options)
     case 'SyntheticStatement':
       return printSyntheticStatement(node, options)
+    case 'SyntheticBase64Statement':
+      return printSyntheticBase64Statement(node, options)
     case 'TableStatement':
       return printTableStatement(node, options)
     case 'UnsetStatement':
       return printUnsetStatement(node, options)
+    case 'VersionStatement':
+      return printVersionStatement(node, options)
 
     case 'BooleanLiteral':
       return printBooleanLiteral(node, options)
@@ -52,6 +79,8 @@ export function printNode(node: Node, options?: object): Doc {
       return printMultilineLiteral(node, options)
     case 'NumericLiteral':
       return printNumericLiteral(node, options)
+    case 'RegexLiteral':
+      return printRegexLiteral(node, options)
     case 'StringLiteral':
       return printStringLiteral(node, options)
 
@@ -81,6 +110,10 @@ export function printNode(node: Node, options?: object): Doc {
       return printTableDefinition(node, options)
     case 'DirectorStatement':
       return printDirectorStatement(node, options)
+    case 'DirectorProperty':
+      return printDirectorProperty(node, options)
+    case 'DirectorBackend':
+      return printDirectorBackend(node, options)
   }
 }
 
@@ -92,11 +125,16 @@ type PrinterFunc<T extends Node, U extends object = object> = (
 export function printStatements(stmts: Array<d.Statement>): Doc {
   const doc = []
 
-  let lastLine: number =
+  let lastLine: number | null =
     (stmts[0] && isLocated(stmts[0]) && getLastLine(stmts[0])) || 1
 
   for (const stmt of stmts) {
-    if (isLocated(stmt) && stmt.loc.start.line - lastLine > 0) {
+    if (!isLocated(stmt)) {
+      // There is no telling where synthetic nodes are
+      lastLine = null
+    } else if (lastLine === null) {
+      lastLine = getLastLine(stmt)
+    } else if (stmt.loc.start.line - lastLine > 0) {
       // Compare the next line with previous line of the last node
       // TODO: Set max number of empty lines between statements
       let delta = getFirstLine(stmt) - lastLine - 1
@@ -131,12 +169,32 @@ function getLastLine(node: Located<Node>): number {
   )
 }
 
+let markers: MarkerRegistry | null = null
+
+// Printers put a marker in front of every located node while `fn` is running
+export function printWithMarkers<T>(registry: MarkerRegistry, fn: () => T): T {
+  markers = registry
+
+  try {
+    return fn()
+  } finally {
+    markers = null
+  }
+}
+
 export const base = <T extends Node, U extends object>(
   printer: PrinterFunc<T, U>
 ): PrinterFunc<T, U> => {
   return (node: T, options?: U) => {
     let printed = printer(node, options)
 
+    if (markers && node.loc) {
+      const n: Node = node
+      const name = n.type === 'Identifier' ? n.name : undefined
+
+      printed = b.concat([markers.create(node.loc, name), printed])
+    }
+
     if (node.leadingComments?.length)
       printed = b.concat([
         b.join(
@@ -184,12 +242,19 @@ export const printNumericLiteral = base((node: d.NumericLiteral) => {
   return node.value
 })
 
+export const printRegexLiteral = base((node: d.RegexLiteral) => {
+  return node.value
+})
+
 export const printIdentifier = base((node: d.Identifier) => {
   return node.name
 })
 
 export const printIp = base((node: d.Ip) => {
-  return node.cidr ? `"${node.value}"/${node.cidr}` : `"${node.value}"`
+  const ip =
+    node.cidr !== undefined ? `"${node.value}"/${node.cidr}` : `"${node.value}"`
+
+  return node.negated ? '!' + ip : ip
 })
 
 export const printMember: PrinterFunc<
@@ -328,10 +393,48 @@ export const printImportStatement = base((node: d.ImportStatement) => {
   return b.concat(['import ', printNode(node.module), ';'])
 })
 
+export const printVersionStatement = base((node: d.VersionStatement) => {
+  return b.concat(['vcl ', node.version, ';'])
+})
+
+export const printFastlyMacroStatement = base(
+  (node: d.FastlyMacroStatement) => {
+    if (!node.body) return `#FASTLY ${node.subroutine}`
+
+    // the same markers as the VCL generated by Fastly
+    const marker = `#--FASTLY ${node.subroutine.toUpperCase()}`
+
+    return b.concat([
+      `${marker} BEGIN`,
+      b.hardline,
+      ...(node.body.length ? [printStatements(node.body), b.hardline] : []),
+      `${marker} END`,
+    ])
+  }
+)
+
+export const printNewStatement = base((node: d.NewStatement) => {
+  return b.concat([
+    'new ',
+    printNode(node.id),
+    ' = ',
+    printNode(node.value),
+    ';',
+  ])
+})
+
 export const printCallStatement = base((node: d.CallStatement) => {
   return b.concat(['call ', printNode(node.subroutine), ';'])
 })
 
+export const printGotoStatement = base((node: d.GotoStatement) => {
+  return b.concat(['goto ', printNode(node.label), ';'])
+})
+
+export const printLabelStatement = base((node: d.LabelStatement) => {
+  return b.concat([printNode(node.label), ':'])
+})
+
 export type DeclareValueType =
   | 'STRING'
   | 'BOOL'
@@ -382,6 +485,10 @@ export const printSetStatement = base((node: d.SetStatement) => {
   )
 })
 
+export const printBogusStatement = base((node: d.BogusStatement) => {
+  return node.raw
+})
+
 export const printUnsetStatement = base((node: d.UnsetStatement) => {
   return b.concat(['unset ', printNode(node.id, { neverBreak: true }), ';'])
 })
@@ -394,8 +501,28 @@ export type ReturnActionName =
   | 'deliver'
 
 export const printReturnStatement = base((node: d.ReturnStatement) => {
+  if (node.argument) {
+    return b.concat(['return ', printNode(node.argument), ';'])
+  }
+
+  if (!node.action) return 'return;'
+
   // TODO: handle the optional parens
-  return b.concat(['return ', '(', node.action, ')', ';'])
+  if (!node.args) return b.concat(['return ', '(', node.action, ')', ';'])
+
+  return b.concat([
+    'return ',
+    '(',
+    node.action,
+    '(',
+    b.join(
+      ', ',
+      node.args.map((n) => printNode(n))
+    ),
+    ')',
+    ')',
+    ';',
+  ])
 })
 
 export const printErrorStatement = base((node: d.ErrorStatement) => {
@@ -420,10 +547,71 @@ export const printSyntheticStatement = base((node: d.SyntheticStatement) => {
   return b.concat(['synthetic ', printNode(node.response), ';'])
 })
 
+export const printSyntheticBase64Statement = base(
+  (node: d.SyntheticBase64Statement) => {
+    return b.concat(['synthetic.base64 ', printNode(node.response), ';'])
+  }
+)
+
+export const printEsiStatement = base(() => {
+  return 'esi;'
+})
+
+export const printPragmaStatement = base((node: d.PragmaStatement) => {
+  return b.concat([
+    b.join(' ', ['pragma', printNode(node.name), node.value].filter(Boolean)),
+    ';',
+  ])
+})
+
+// The body is kept verbatim, including its indentation
+export const printInlineCStatement = base((node: d.InlineCStatement) => {
+  return b.concat(['C{', b.join(b.literalline, node.body.split('\n')), '}C'])
+})
+
 export const printLogStatement = base((node: d.LogStatement) => {
   return b.concat(['log ', printNode(node.content), ';'])
 })
 
+// The block can only have comments
+const printEmptyBlock = (node: d.Node): Doc =>
+  node.innerComments?.length
+    ? b.concat([
+        '{',
+        b.indent(
+          b.concat([
+            b.hardline,
+            b.join(
+              b.hardline,
+              node.innerComments.map((comment) => comment.value)
+            ),
+          ])
+        ),
+        b.hardline,
+        '}',
+      ])
+    : '{}'
+
+export const printPenaltyboxStatement = base((node: d.PenaltyboxStatement) => {
+  return b.concat([
+    'penaltybox ',
+    printNode(node.id),
+    ' ',
+    printEmptyBlock(node),
+  ])
+})
+
+export const printRatecounterStatement = base(
+  (node: d.RatecounterStatement) => {
+    return b.concat([
+      'ratecounter ',
+      printNode(node.id),
+      ' ',
+      printEmptyBlock(node),
+    ])
+  }
+)
+
 export const printIfStatement = base((node: d.IfStatement) => {
   const doc = [
     'if ',
@@ -462,6 +650,7 @@ export const printSubroutineStatement = base((node: d.SubroutineStatement) => {
   return b.concat([
     'sub ',
     printIdentifier(node.id),
+    node.returnType ? ' ' + node.returnType : '',
     ' {',
     b.indent(b.concat([b.hardline, printStatements(node.body)])),
     b.hardline,
@@ -511,50 +700,57 @@ export const printBackendDefinition: PrinterFunc<d.BackendDefinition> = base(
   }
 )
 
+const printBackendBody = (body: Array<d.BackendDefinition>) =>
+  b.concat([
+    '{',
+    b.indent(
+      b.concat([
+        b.hardline,
+        b.join(
+          b.hardline,
+          body.map((d) => printBackendDefinition(d))
+        ),
+      ])
+    ),
+    b.hardline,
+    '}',
+  ])
+
 export const printBackendStatement = base((node: d.BackendStatement) => {
   return b.concat([
     'backend ',
     printIdentifier(node.id),
     ' ',
-    b.concat([
-      '{',
-      b.indent(
-        b.concat([
-          b.hardline,
-          b.join(
-            b.hardline,
-            node.body.map((d) => printBackendDefinition(d))
-          ),
-        ])
-      ),
-      b.hardline,
-      '}',
-    ]),
+    printBackendBody(node.body),
   ])
 })
 
-export const printTableDefinition = base((node: d.TableDefinition) => {
-  return b.concat([node.key, ':', node.value])
+export const printProbeStatement = base((node: d.ProbeStatement) => {
+  return b.concat([
+    'probe ',
+    printIdentifier(node.id),
+    ' ',
+    printBackendBody(node.body),
+  ])
 })
 
-/**
- * asdfasdf
- */
+export const printTableDefinition = base((node: d.TableDefinition) => {
+  return b.concat([printNode(node.key), ': ', printNode(node.value), ','])
+})
 
 export const printTableStatement = base((node: d.TableStatement) => {
   return b.concat([
     'table ',
     printIdentifier(node.id),
+    node.valueType ? ' ' + node.valueType : '',
     ' {',
     b.indent(
       b.concat([
         b.hardline,
         b.join(
-          b.concat([',', b.hardline]),
+          b.hardline,
           node.body.map((td) => printTableDefinition(td))
         ),
-        // TODO: handle trailing comma
-        // ',',
       ])
     ),
     b.hardline,
@@ -562,6 +758,21 @@ export const printTableStatement = base((node: d.TableStatement) => {
   ])
 })
 
+export const printDirectorProperty = base((node: d.DirectorProperty) => {
+  return b.concat(['.', node.key, ' = ', printNode(node.value), ';'])
+})
+
+export const printDirectorBackend = base((node: d.DirectorBackend) => {
+  return b.concat([
+    '{ ',
+    b.join(
+      ' ',
+      node.attributes.map((attr) => printDirectorProperty(attr))
+    ),
+    ' }',
+  ])
+})
+
 export const printDirectorStatement = base((node: d.DirectorStatement) => {
   return b.concat([
     'director ',
@@ -574,21 +785,7 @@ export const printDirectorStatement = base((node: d.DirectorStatement) => {
         b.hardline,
         b.join(
           b.hardline,
-          node.body.map((item) => {
-            if ('backend' in item) {
-              return b.concat([
-                '{ ',
-                b.join(' ', [
-                  '.backend = ' + item.backend + ';',
-                  ...item.attributes.map(
-                    (attr) => '.' + attr.key + ' = ' + attr.value + ';'
-                  ),
-                ]),
-                ' }',
-              ])
-            }
-            return b.concat(['.' + item.key + ' = ' + item.value + ';'])
-          })
+          node.body.map((item) => printNode(item))
         ),
       ])
     ),
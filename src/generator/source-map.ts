@@ -0,0 +1,211 @@
+import { Location } from '../nodes'
+import { SourcePosition } from './buffer'
+
+// https://sourcemaps.info/spec.html
+export interface RawSourceMap {
+  version: 3
+  file?: string
+  sourceRoot?: string
+  sources: Array<string>
+  names: Array<string>
+  mappings: string
+}
+
+export interface Mapping {
+  generated: { line: number; column: number }
+  original: SourcePosition
+}
+
+const BASE64 =
+  'ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789+/'
+
+const VLQ_SHIFT = 5
+const VLQ_BASE = 1 << VLQ_SHIFT
+const VLQ_MASK = VLQ_BASE - 1
+const VLQ_CONTINUATION = VLQ_BASE
+
+export function encodeVlq(value: number): string {
+  let vlq = value < 0 ? (-value << 1) | 1 : value << 1
+  let encoded = ''
+
+  do {
+    let digit = vlq & VLQ_MASK
+    vlq >>>= VLQ_SHIFT
+
+    if (vlq > 0) digit |= VLQ_CONTINUATION
+
+    encoded += BASE64[digit]
+  } while (vlq > 0)
+
+  return encoded
+}
+
+export class SourceMap {
+  private mappings: Array<Mapping> = []
+  private names: Array<string> = []
+  private sources: Array<string> = []
+
+  file?: string
+  sourceRoot?: string
+
+  constructor({ file, sourceRoot }: { file?: string; sourceRoot?: string }) {
+    this.file = file
+    this.sourceRoot = sourceRoot
+  }
+
+  /**
+   * Both lines are 1-based and both columns are 0-based,
+   * as the Buffer tracks them.
+   */
+  mark(generated: { line: number; column: number }, original: SourcePosition) {
+    const last = this.mappings[this.mappings.length - 1]
+
+    // Nested nodes share the start of their parents,
+    // keep only the innermost one for a generated position
+    if (
+      last &&
+      last.generated.line === generated.line &&
+      last.generated.column === generated.column
+    ) {
+      this.mappings.pop()
+    }
+
+    this.mappings.push({ generated: { ...generated }, original })
+  }
+
+  getMappings(): ReadonlyArray<Mapping> {
+    return this.mappings
+  }
+
+  toJSON(): RawSourceMap {
+    const lines: Array<Array<string>> = []
+
+    let prevGeneratedColumn = 0
+    let prevSource = 0
+    let prevOriginalLine = 0
+    let prevOriginalColumn = 0
+    let prevName = 0
+
+    // mappings are marked in the generated order
+    for (const { generated, original } of this.mappings) {
+      const lineIndex = generated.line - 1
+
+      if (lines.length <= lineIndex) {
+        while (lines.length <= lineIndex) lines.push([])
+
+        // generated columns are relative within a line
+        prevGeneratedColumn = 0
+      }
+
+      const segments = lines[lineIndex]
+
+      const source = this.getIndex(this.sources, original.filename ?? 'unknown')
+      const originalLine = original.line - 1
+
+      let segment =
+        encodeVlq(generated.column - prevGeneratedColumn) +
+        encodeVlq(source - prevSource) +
+        encodeVlq(originalLine - prevOriginalLine) +
+        encodeVlq(original.column - prevOriginalColumn)
+
+      if (original.identifierName !== undefined) {
+        const name = this.getIndex(this.names, original.identifierName)
+        segment += encodeVlq(name - prevName)
+        prevName = name
+      }
+
+      segments.push(segment)
+
+      prevGeneratedColumn = generated.column
+      prevSource = source
+      prevOriginalLine = originalLine
+      prevOriginalColumn = original.column
+    }
+
+    return {
+      version: 3,
+      file: this.file,
+      sourceRoot: this.sourceRoot,
+      sources: this.sources,
+      names: this.names,
+      mappings: lines.map((segments) => segments.join(',')).join(';'),
+    }
+  }
+
+  toString(): string {
+    return JSON.stringify(this.toJSON())
+  }
+
+  private getIndex(list: Array<string>, item: string): number {
+    let index = list.indexOf(item)
+
+    if (index === -1) {
+      index = list.push(item) - 1
+    }
+
+    return index
+  }
+}
+
+/**
+ * The doc printer has no notion of source positions, so printers put
+ * zero-width markers in front of every located node and the generator
+ * replaces them with mappings once the doc has been laid out.
+ * Control characters don't count for the width on printing.
+ */
+const MARKER_START = '\u0001'
+const MARKER_END = '\u0002'
+const DIGIT_BASE = 0x10
+
+// eslint-disable-next-line no-control-regex
+const reMarker = /\u0001([\u0010-\u0019]+)\u0002/g
+
+export class MarkerRegistry {
+  private locations: Array<{ loc: Location; name?: string }> = []
+
+  create(loc: Location, name?: string): string {
+    const id = this.locations.push({ loc, name }) - 1
+
+    return (
+      MARKER_START +
+      String(id)
+        .split('')
+        .map((d) => String.fromCharCode(DIGIT_BASE + Number(d)))
+        .join('') +
+      MARKER_END
+    )
+  }
+
+  /**
+   * Call `onText` with every chunk of code and `onMarker` with
+   * the location of every marker, in the order they appear
+   */
+  consume(
+    code: string,
+    onText: (text: string) => void,
+    onMarker: (loc: Location, name?: string) => void
+  ): void {
+    let lastIndex = 0
+    let match: RegExpExecArray | null
+
+    reMarker.lastIndex = 0
+
+    while ((match = reMarker.exec(code))) {
+      if (match.index > lastIndex) onText(code.slice(lastIndex, match.index))
+
+      const id = Number(
+        match[1]
+          .split('')
+          .map((c) => c.charCodeAt(0) - DIGIT_BASE)
+          .join('')
+      )
+      const { loc, name } = this.locations[id]
+
+      onMarker(loc, name)
+
+      lastIndex = reMarker.lastIndex
+    }
+
+    if (lastIndex < code.length) onText(code.slice(lastIndex))
+  }
+}
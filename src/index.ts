@@ -5,30 +5,88 @@ import assert from 'assert'
 import {
   parse,
   generate,
+  lint,
+  allowedStatements,
+  dialects,
   // traverse,
 } from './lib'
 import { GenerateOptions } from './generator'
 import { Program } from './nodes'
+import { VacelineDiagnostic } from './diagnostic'
+import normalizeAcl from './plugins/normalize-acl'
+import expandMacros from './plugins/expand-macros'
+import convert, { ConversionChange, formatChange } from './plugins/convert'
+import { Dialect } from './parser/keywords'
 
 interface TransformResult {
   code: string
-  map: string
+  map?: string
   ast: Program
+  // warnings from the transforms
+  diagnostics: Array<VacelineDiagnostic>
+  // what has been changed to convert the dialect
+  changes: Array<ConversionChange>
 }
 
-export { parse, generate as transformFromAst }
+export {
+  parse,
+  lint,
+  normalizeAcl,
+  expandMacros,
+  convert,
+  formatChange,
+  allowedStatements,
+  dialects,
+  generate as transformFromAst,
+}
+
+export type Options = {
+  // collapse, dedupe and sort acl entries
+  normalizeAcl: boolean
+  // the flavor of VCL to parse, `fastly` by default
+  dialect: Dialect
+  // convert the AST into another dialect before printing
+  convertTo: Dialect
+  // expand `#FASTLY <sub>` into the markers of the boilerplate of Fastly
+  expandMacros: boolean
+} & GenerateOptions
+
+// Run the transforms selected by the options on the AST
+function applyTransforms(
+  ast: Program,
+  code: string,
+  {
+    normalizeAcl: shouldNormalizeAcl,
+    dialect = 'fastly',
+    convertTo,
+    expandMacros: shouldExpandMacros,
+  }: Partial<Options>
+): Pick<TransformResult, 'diagnostics' | 'changes'> {
+  // before converting, which keeps what the macros are expanded into
+  if (shouldExpandMacros) expandMacros(ast)
 
-export type Options = {} & GenerateOptions
+  const changes = convertTo
+    ? convert(ast, { from: dialect, to: convertTo })
+    : []
+  const diagnostics = shouldNormalizeAcl
+    ? normalizeAcl(ast, { source: code })
+    : []
+
+  return { diagnostics, changes }
+}
 
 export function transform(
   code: string,
   options: Partial<Options> = {}
 ): TransformResult {
-  const ast = parse(code)
+  const ast = parse(code, { dialect: options.dialect })
+  const { diagnostics, changes } = applyTransforms(ast, code, options)
 
   const result: Partial<TransformResult> = generate(ast, options)
 
   result.ast = ast
+  result.diagnostics = diagnostics
+  result.changes = changes
 
   return result as TransformResult
 }
@@ -40,10 +98,18 @@ export function transformFile(
   const inputPath = resolvePath(filePath)
   assert(existsSync(inputPath), 'File not found: ' + inputPath)
 
-  const ast = parse(readFileSync(filePath, 'utf8'))
-  const result: Partial<TransformResult> = generate(ast, options)
+  const code = readFileSync(filePath, 'utf8')
+  const ast = parse(code, { dialect: options.dialect })
+  const { diagnostics, changes } = applyTransforms(ast, code, options)
+
+  const result: Partial<TransformResult> = generate(ast, {
+    sourceFileName: filePath,
+    ...options,
+  })
 
   result.ast = ast
+  result.diagnostics = diagnostics
+  result.changes = changes
 
   return result as TransformResult
 }
@@ -1,3 +1,5 @@
 export { parse } from './parser'
 export { generate } from './generator'
 export { traverse } from './traverser'
+export { lint } from './linter'
+export { allowedStatements, dialects } from './parser/keywords'
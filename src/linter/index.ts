@@ -0,0 +1,55 @@
+import { Program } from '../nodes'
+import { DiagnosticOptions, VacelineDiagnostic } from '../diagnostic'
+import { Dialect } from '../parser/keywords'
+import { fastlyMacros } from './rules/fastly-macros'
+import { redos } from './rules/redos'
+
+export interface LintContext {
+  // the flavor of VCL the AST is parsed as
+  dialect: Dialect
+  report(options: Omit<DiagnosticOptions, 'severity' | 'source'>): void
+}
+
+export type LintRule = (ast: Program, context: LintContext) => void
+
+export const rules = {
+  fastlyMacros,
+  redos,
+}
+
+export type LintRuleName = keyof typeof rules
+
+export interface LintOptions {
+  // the source the AST is parsed from, to render code frames
+  source: string
+  rules: Array<LintRuleName>
+  // `fastly` by default
+  dialect: Dialect
+}
+
+// Run the rules and return what they found as warnings, in source order
+export function lint(
+  ast: Program,
+  {
+    source,
+    rules: names = Object.keys(rules) as Array<LintRuleName>,
+    dialect = 'fastly',
+  }: Partial<LintOptions> = {}
+): Array<VacelineDiagnostic> {
+  const diagnostics: Array<VacelineDiagnostic> = []
+
+  const context: LintContext = {
+    dialect,
+    report(options) {
+      diagnostics.push(
+        new VacelineDiagnostic({ ...options, severity: 'warning', source })
+      )
+    },
+  }
+
+  for (const name of names) {
+    rules[name](ast, context)
+  }
+
+  return diagnostics.sort((a, b) => a.start.offset - b.start.offset)
+}
@@ -0,0 +1,53 @@
+import { Program } from '../../nodes'
+import { traverse } from '../../traverser'
+import { LintContext } from '..'
+
+// https://developer.fastly.com/learning/vcl/using/#adding-vcl-to-your-service-configuration
+const subroutines = new Set([
+  'vcl_recv',
+  'vcl_hash',
+  'vcl_hit',
+  'vcl_miss',
+  'vcl_pass',
+  'vcl_fetch',
+  'vcl_error',
+  'vcl_deliver',
+  'vcl_log',
+])
+
+/**
+ * Find the subroutines of Fastly without `#FASTLY <sub>` in them, where
+ * Fastly puts its boilerplate such as the backends and the logging
+ */
+export function fastlyMacros(ast: Program, context: LintContext): void {
+  if (context.dialect !== 'fastly') return
+
+  // the macros found in the subroutine being visited
+  let macros = new Set<string>()
+
+  traverse(ast, {
+    SubroutineStatement: {
+      enter() {
+        macros = new Set()
+      },
+      exit(path) {
+        const { id } = path.node
+        const macro = `#FASTLY ${id.name.slice('vcl_'.length)}`
+
+        if (!subroutines.has(id.name) || macros.has(macro) || !id.loc) return
+
+        context.report({
+          name: 'MissingFastlyMacro',
+          message: `${id.name} doesn't contain '${macro}'`,
+          start: id.loc.start,
+          end: id.loc.end,
+          hint: `put '${macro}' at the beginning of the subroutine`,
+        })
+      },
+    },
+
+    FastlyMacroStatement(path) {
+      macros.add(`#FASTLY ${path.node.subroutine}`)
+    },
+  })
+}
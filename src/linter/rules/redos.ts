@@ -0,0 +1,445 @@
+import { Located, Node, Program, RegexLiteral } from '../../nodes'
+import { traverse } from '../../traverser'
+import { NodePath } from '../../traverser/path'
+import {
+  parseRegex,
+  RegexAtom,
+  RegexError,
+  RegexGroup,
+  RegexNode,
+  RegexQuantifier,
+  RegexSequence,
+} from '../../parser/regex'
+import { getPatternPosition } from '../../parser/literal'
+import { escapeString } from '../../utils/string'
+import { LintContext } from '..'
+
+interface Span {
+  start: number
+  end: number
+}
+
+/**
+ * Find regexes which can backtrack catastrophically:
+ *
+ * - nested quantifiers, e.g. `(a+)+`
+ * - overlapping alternatives under a quantifier, e.g. `(a|ab)*`
+ * - unanchored `.*` prefixes in vcl_recv, which runs for every request
+ */
+export function redos(ast: Program, context: LintContext): void {
+  traverse(ast, {
+    RegexLiteral(path) {
+      const node = path.node
+
+      if (!node.loc) return
+
+      const literal = node as Located<RegexLiteral>
+      const pattern = literal.pattern
+
+      let regex
+
+      try {
+        regex = parseRegex(pattern)
+      } catch (err) {
+        // reported by the parser
+        if (err instanceof RegexError) return
+        throw err
+      }
+
+      const report = (
+        name:
+          | 'NestedQuantifier'
+          | 'OverlappingAlternation'
+          | 'UnanchoredWildcard',
+        message: string,
+        span: Span,
+        rewrite: string | null
+      ) =>
+        context.report({
+          name,
+          message,
+          start: getPatternPosition(literal, span.start),
+          end: getPatternPosition(literal, span.end - 1),
+          hint:
+            rewrite === null
+              ? undefined
+              : `rewrite it as ${escapeString(rewrite)}`,
+        })
+
+      walk(regex, (node) => {
+        if (node.type !== 'Quantifier' || !isBacktracking(node)) return
+
+        const raw = slice(pattern, node)
+        const inner = findRepeatedQuantifier(node.body)
+
+        if (inner) {
+          report(
+            'NestedQuantifier',
+            `Nested quantifier '${raw}' can backtrack catastrophically`,
+            node,
+            // the inner one doesn't give back what it has matched
+            inner.lazy
+              ? replace(pattern, inner, `(?>${slice(pattern, inner)})`)
+              : replace(pattern, inner, slice(pattern, inner) + '+')
+          )
+
+          return
+        }
+
+        const group = unwrapGroup(node.body)
+
+        if (group && hasOverlappingAlternatives(group)) {
+          report(
+            'OverlappingAlternation',
+            `Alternatives of '${raw}' can match the same input and backtrack catastrophically`,
+            group,
+            toCharacterClass(pattern, group) ??
+              factorPrefix(pattern, group) ??
+              sortLongestFirst(pattern, group)
+          )
+        }
+      })
+
+      if (!isIn(path, 'vcl_recv')) return
+
+      for (const alternative of regex.alternatives) {
+        const first = alternative.body[0]
+
+        if (
+          first &&
+          first.type === 'Quantifier' &&
+          first.body.type === 'Any' &&
+          first.max === Infinity
+        ) {
+          // `~ ".*a"` matches what `~ "a"` does
+          const isMatch =
+            !!path.parent &&
+            path.parent.type === 'BinaryExpression' &&
+            regex.alternatives.length === 1 &&
+            first.min === 0
+          const raw = slice(pattern, first)
+
+          report(
+            'UnanchoredWildcard',
+            `Unanchored '${raw}' is tried at every position in vcl_recv`,
+            first,
+            isMatch
+              ? replace(pattern, first, '')
+              : replace(pattern, { start: first.start, end: first.start }, '^')
+          )
+        }
+      }
+    },
+  })
+}
+
+function walk(node: RegexNode, callback: (node: RegexNode) => void): void {
+  callback(node)
+
+  switch (node.type) {
+    case 'Alternation':
+      return node.alternatives.forEach((alternative) =>
+        walk(alternative, callback)
+      )
+    case 'Sequence':
+      return node.body.forEach((child) => walk(child, callback))
+    case 'Group':
+    case 'Quantifier':
+      return walk(node.body, callback)
+  }
+}
+
+const slice = (pattern: string, span: Span) =>
+  pattern.slice(span.start, span.end)
+const replace = (pattern: string, span: Span, replacement: string) =>
+  pattern.slice(0, span.start) + replacement + pattern.slice(span.end)
+
+// Whether it repeats and gives back what it has matched
+const isBacktracking = (node: RegexQuantifier) =>
+  node.max > 1 && !node.possessive
+
+function canBeEmpty(node: RegexNode): boolean {
+  switch (node.type) {
+    case 'Alternation':
+      return node.alternatives.some(canBeEmpty)
+    case 'Sequence':
+      return node.body.every(canBeEmpty)
+    case 'Group':
+      return node.kind === 'lookahead' || node.kind === 'lookbehind'
+        ? true
+        : canBeEmpty(node.body)
+    case 'Quantifier':
+      return node.min === 0 || canBeEmpty(node.body)
+    default:
+      return node.type === 'Assertion' || node.type === 'Option'
+  }
+}
+
+/**
+ * A backtracking quantifier which can be repeated by the outer one right
+ * after itself, so that the input can be split among them in many ways.
+ * `(a+)+` and `(a+b?)+` have one but `(a+b)+` doesn't.
+ */
+function findRepeatedQuantifier(node: RegexNode): RegexQuantifier | undefined {
+  switch (node.type) {
+    case 'Alternation':
+      for (const alternative of node.alternatives) {
+        const found = findRepeatedQuantifier(alternative)
+        if (found) return found
+      }
+      return undefined
+    case 'Sequence':
+      for (const child of node.body) {
+        const others = node.body.filter((other) => other !== child)
+
+        if (!others.every(canBeEmpty)) continue
+
+        const found = findRepeatedQuantifier(child)
+        if (found) return found
+      }
+      return undefined
+    case 'Group':
+      return node.kind === 'capturing' || node.kind === 'non-capturing'
+        ? findRepeatedQuantifier(node.body)
+        : undefined
+    case 'Quantifier':
+      return isBacktracking(node) ? node : findRepeatedQuantifier(node.body)
+    default:
+      return undefined
+  }
+}
+
+// The group with alternatives directly under a quantifier
+function unwrapGroup(node: RegexNode): RegexGroup | undefined {
+  if (node.type !== 'Group') return undefined
+  if (node.kind !== 'capturing' && node.kind !== 'non-capturing') {
+    return undefined
+  }
+
+  return node.body.alternatives.length > 1 ? node : undefined
+}
+
+// The atoms the node can start with
+function getFirstAtoms(node: RegexNode): Array<RegexAtom> {
+  switch (node.type) {
+    case 'Alternation':
+      return ([] as Array<RegexAtom>).concat(
+        ...node.alternatives.map(getFirstAtoms)
+      )
+    case 'Sequence': {
+      const atoms = []
+
+      for (const child of node.body) {
+        atoms.push(...getFirstAtoms(child))
+
+        if (!canBeEmpty(child)) break
+      }
+
+      return atoms
+    }
+    case 'Group':
+      return node.kind === 'lookahead' || node.kind === 'lookbehind'
+        ? []
+        : getFirstAtoms(node.body)
+    case 'Quantifier':
+      return getFirstAtoms(node.body)
+    default:
+      return node.type === 'Assertion' || node.type === 'Option' ? [] : [node]
+  }
+}
+
+// printable ASCII and a few more to check what two atoms can both match
+const samples = Array.from({ length: 128 }, (_, code) =>
+  String.fromCharCode(code)
+).concat(['é', 'あ'])
+
+const matchers = new Map<string, (char: string) => boolean>()
+
+function getMatcher(atom: RegexAtom): (char: string) => boolean {
+  if (atom.type === 'Any') return (char) => char !== '\n'
+  if (atom.type === 'Char') {
+    // `\Q...\E` starts with its first character
+    const first = atom.raw.startsWith('\\Q') ? atom.raw[2] : atom.raw
+    return (char) => char === first
+  }
+
+  let matcher = matchers.get(atom.raw)
+
+  if (!matcher) {
+    try {
+      const re = new RegExp(`^(?:${atom.raw})$`)
+      matcher = (char) => re.test(char)
+    } catch (err) {
+      // e.g. POSIX classes which JS doesn't know, assume it can match anything
+      matcher = () => true
+    }
+
+    matchers.set(atom.raw, matcher)
+  }
+
+  return matcher
+}
+
+function canOverlap(a: RegexAtom, b: RegexAtom): boolean {
+  const matchA = getMatcher(a)
+  const matchB = getMatcher(b)
+
+  return samples.some((char) => matchA(char) && matchB(char))
+}
+
+// An atom which matches exactly one character
+const isSingleChar = (node: RegexNode): node is RegexAtom =>
+  node.type === 'Any' ||
+  node.type === 'Class' ||
+  node.type === 'Escape' ||
+  (node.type === 'Char' && !node.raw.startsWith('\\Q'))
+
+const canOverlapFirst = (a: RegexNode, b: RegexNode) =>
+  getFirstAtoms(a).some((atom) =>
+    getFirstAtoms(b).some((other) => canOverlap(atom, other))
+  )
+
+/**
+ * Whether one alternative can match the beginning of what the other one
+ * matches, e.g. `a` and `ab`, so that the repetition can split the input
+ * among them in many ways. `ab` and `ac` can't as they differ in the second
+ * character.
+ */
+function canMatchPrefix(a: RegexSequence, b: RegexSequence): boolean {
+  const isConsuming = (node: RegexNode) =>
+    node.type !== 'Assertion' && node.type !== 'Option'
+  const left = a.body.filter(isConsuming)
+  const right = b.body.filter(isConsuming)
+
+  // an empty alternative doesn't repeat
+  if (!left.length || !right.length) return false
+
+  for (let i = 0; i < left.length && i < right.length; i++) {
+    const x = left[i]
+    const y = right[i]
+
+    // assume the rest can overlap when it's more than a character
+    if (!isSingleChar(x) || !isSingleChar(y)) return canOverlapFirst(x, y)
+
+    if (!canOverlap(x, y)) return false
+  }
+
+  // the shorter one matches a prefix of the other one
+  return true
+}
+
+function hasOverlappingAlternatives(group: RegexGroup): boolean {
+  const { alternatives } = group.body
+
+  return alternatives.some((alternative, i) =>
+    alternatives
+      .slice(i + 1)
+      .some((other) => canMatchPrefix(alternative, other))
+  )
+}
+
+// `(a|[bc]|\d)` into `[abc\d]` when every alternative is one character
+function toCharacterClass(pattern: string, group: RegexGroup): string | null {
+  const members = []
+
+  for (const alternative of group.body.alternatives) {
+    const [atom] = alternative.body
+
+    if (alternative.body.length !== 1) return null
+
+    if (atom.type === 'Char' && atom.raw.length === 1) {
+      members.push(/[\]\\^-]/.test(atom.raw) ? '\\' + atom.raw : atom.raw)
+    } else if (atom.type === 'Escape') {
+      members.push(atom.raw)
+    } else if (atom.type === 'Class' && !atom.raw.startsWith('[^')) {
+      members.push(atom.raw.slice(1, -1))
+    } else {
+      return null
+    }
+  }
+
+  return replace(pattern, group, `[${members.join('')}]`)
+}
+
+// Inline options such as `(?i)` apply to the alternatives after them too
+const hasOption = (group: RegexGroup) =>
+  group.body.alternatives.some((alternative) =>
+    alternative.body.some((node) => node.type === 'Option')
+  )
+
+// `(a|ab)` into `(a(?:b)?)`, which matches the same inputs
+function factorPrefix(pattern: string, group: RegexGroup): string | null {
+  const { alternatives } = group.body
+
+  if (hasOption(group)) return null
+
+  let length = 0
+
+  for (;;) {
+    const [first, ...others] = alternatives.map(
+      (alternative) => alternative.body[length]
+    )
+
+    if (
+      !first ||
+      !isSingleChar(first) ||
+      !others.every(
+        (other) => other && isSingleChar(other) && other.raw === first.raw
+      )
+    ) {
+      break
+    }
+
+    length++
+  }
+
+  if (!length) return null
+
+  const [head] = alternatives
+  const prefix = pattern.slice(head.start, head.body[length - 1].end)
+  const rests = alternatives.map((alternative) =>
+    alternative.body.length > length
+      ? pattern.slice(alternative.body[length].start, alternative.end)
+      : ''
+  )
+  const nonEmpty = rests.filter(Boolean)
+  const optional = nonEmpty.length < rests.length ? '?' : ''
+  const rest = nonEmpty.length ? `(?:${nonEmpty.join('|')})${optional}` : ''
+
+  return replace(pattern, group.body, prefix + rest)
+}
+
+// `(a|ab|c)` into `(ab|a|c)` when every alternative is a string of characters
+function sortLongestFirst(pattern: string, group: RegexGroup): string | null {
+  const { alternatives } = group.body
+
+  if (
+    !alternatives.every((alternative) => alternative.body.every(isSingleChar))
+  ) {
+    return null
+  }
+
+  const sorted = alternatives
+    .slice()
+    .sort((a, b) => b.body.length - a.body.length)
+
+  if (sorted.every((alternative, i) => alternative === alternatives[i])) {
+    return null
+  }
+
+  return replace(
+    pattern,
+    group.body,
+    sorted.map((alternative) => slice(pattern, alternative)).join('|')
+  )
+}
+
+function isIn(path: NodePath<Node>, subroutine: string): boolean {
+  for (let p = path.parentPath; p; p = p.parentPath) {
+    if (p.node.type === 'SubroutineStatement') {
+      return p.node.id.name === subroutine
+    }
+  }
+
+  return false
+}
@@ -1,5 +1,5 @@
 import { BaseNode } from '.'
-import { Literal } from './literal'
+import { Literal, StringLiteral } from './literal'
 
 export type Expression =
   | Literal
@@ -14,6 +14,8 @@ export type Expression =
   | ValuePair
   | BackendDefinition
   | TableDefinition
+  | DirectorProperty
+  | DirectorBackend
 
 export interface Identifier extends BaseNode {
   type: 'Identifier'
@@ -74,8 +76,23 @@ export interface BackendDefinition extends BaseNode {
   value: Expression | Array<BackendDefinition>
 }
 
+// `.quorum = 50%;` in a director or in one of its backends
+export interface DirectorProperty extends BaseNode {
+  type: 'DirectorProperty'
+  key: string
+  value: Expression
+}
+
+// `{ .backend = F_origin; .weight = 1; }` in a director
+export interface DirectorBackend extends BaseNode {
+  type: 'DirectorBackend'
+  // in the source order, `.backend` is always one of them
+  attributes: Array<DirectorProperty>
+}
+
 export interface TableDefinition extends BaseNode {
   type: 'TableDefinition'
-  key: string
-  value: string
+  key: StringLiteral
+  // the name of a backend or an acl for BACKEND and ACL tables
+  value: Literal | Identifier
 }
@@ -30,3 +30,4 @@ export interface BaseNode {
 }
 
 export type NodeType = Node['type']
+export type StatementType = Statement['type']
@@ -5,6 +5,7 @@ export type Literal =
   | DurationLiteral
   | MultilineLiteral
   | NumericLiteral
+  | RegexLiteral
   | StringLiteral
   | Ip
 
@@ -15,26 +16,52 @@ export interface BooleanLiteral extends BaseNode {
 
 export interface StringLiteral extends BaseNode {
   type: 'StringLiteral'
+  // the raw source with quotes and escapes, e.g. `"%22foo%22"`
   value: string
+  // the decoded content, e.g. `"foo"`
+  cooked: string
 }
 
+// `{"..."}` or `{xyz"..."xyz}`, which can have newlines and `"}` inside
 export interface MultilineLiteral extends BaseNode {
   type: 'MultilineLiteral'
   value: string
+  // the `xyz` of `{xyz"`, empty for `{"`
+  delimiter: string
+  // the content between the delimiters, which has no escapes
+  cooked: string
 }
 
+export type DurationUnit = 'ms' | 's' | 'm' | 'h' | 'd' | 'y'
+
+// A string used as a regex, e.g. of `~` or `regsub`
+export interface RegexLiteral extends BaseNode {
+  type: 'RegexLiteral'
+  // the raw source of the string
+  value: string
+  pattern: string
+}
+
+// RTIME, e.g. `-10s`
 export interface DurationLiteral extends BaseNode {
   type: 'DurationLiteral'
+  // the raw source without spaces, e.g. `1.5h`
   value: string
+  number: number
+  unit: DurationUnit
 }
 
+// INTEGER or FLOAT in decimal or hexadecimal, e.g. `-1`, `0x1F` or `1.5e3`
 export interface NumericLiteral extends BaseNode {
   type: 'NumericLiteral'
   value: string
+  number: number
 }
 
 export interface Ip extends BaseNode {
   type: 'Ip'
   value: string
   cidr?: number
+  // `!"10.0.0.0"/8` in acls
+  negated?: boolean
 }
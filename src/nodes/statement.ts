@@ -1,5 +1,7 @@
 import {
   BackendDefinition,
+  DirectorBackend,
+  DirectorProperty,
   Expression,
   Identifier,
   Member,
@@ -13,22 +15,41 @@ export type Statement =
   | AclStatement
   | AddStatement
   | BackendStatement
+  | BogusStatement
   | CallStatement
   | DeclareStatement
   | DirectorStatement
   | ErrorStatement
+  | EsiStatement
   | ExpressionStatement
+  | FastlyMacroStatement
+  | GotoStatement
   | IfStatement
   | ImportStatement
   | IncludeStatement
+  | InlineCStatement
+  | LabelStatement
   | LogStatement
+  | NewStatement
+  | PenaltyboxStatement
+  | PragmaStatement
+  | ProbeStatement
+  | RatecounterStatement
   | RestartStatement
   | ReturnStatement
   | SetStatement
   | SubroutineStatement
   | SyntheticStatement
+  | SyntheticBase64Statement
   | TableStatement
   | UnsetStatement
+  | VersionStatement
+
+// A span which couldn't be parsed, kept as it is in the recovery mode
+export interface BogusStatement extends BaseNode {
+  type: 'BogusStatement'
+  raw: string
+}
 
 export interface ExpressionStatement extends BaseNode {
   type: 'ExpressionStatement'
@@ -45,17 +66,54 @@ export interface ImportStatement extends BaseNode {
   module: Identifier
 }
 
+// `vcl 4.1;` at the beginning of Varnish VCL
+export interface VersionStatement extends BaseNode {
+  type: 'VersionStatement'
+  version: string
+}
+
+// `#FASTLY recv` where Fastly puts the boilerplate of the subroutine
+export interface FastlyMacroStatement extends BaseNode {
+  type: 'FastlyMacroStatement'
+  // `recv` of `#FASTLY recv`
+  subroutine: string
+  // what the macro is expanded into, printed between the markers of Fastly
+  body?: Array<Statement>
+}
+
+// `new cluster = directors.round_robin();` to instantiate a VMOD object
+export interface NewStatement extends BaseNode {
+  type: 'NewStatement'
+  id: Identifier
+  value: Expression
+}
+
 export interface CallStatement extends BaseNode {
   type: 'CallStatement'
   subroutine: Identifier
 }
 
+export interface GotoStatement extends BaseNode {
+  type: 'GotoStatement'
+  label: Identifier
+}
+
+// `label:` as a destination of `goto`
+export interface LabelStatement extends BaseNode {
+  type: 'LabelStatement'
+  label: Identifier
+}
+
 export type DeclareValueType =
   | 'STRING'
   | 'BOOL'
   | 'BOOLEAN'
   | 'INTEGER'
   | 'FLOAT'
+  | 'TIME'
+  | 'RTIME'
+  | 'IP'
+  | 'BACKEND'
 
 export interface DeclareStatement extends BaseNode {
   type: 'DeclareStatement'
@@ -63,18 +121,35 @@ export interface DeclareStatement extends BaseNode {
   valueType: DeclareValueType
 }
 
+export type AssignmentOperator =
+  | '='
+  | '+='
+  | '-='
+  | '*='
+  | '/='
+  | '%='
+  | '|='
+  | '&='
+  | '^='
+  | '<<='
+  | '>>='
+  | 'rol='
+  | 'ror='
+  | '||='
+  | '&&='
+
 export interface AddStatement extends BaseNode {
   type: 'AddStatement'
   left: Identifier | Member | ValuePair
   right: Expression
-  operator: string
+  operator: AssignmentOperator
 }
 
 export interface SetStatement extends BaseNode {
   type: 'SetStatement'
   left: Identifier | Member | ValuePair
   right: Expression
-  operator: string
+  operator: AssignmentOperator
 }
 
 export interface UnsetStatement extends BaseNode {
@@ -83,15 +158,34 @@ export interface UnsetStatement extends BaseNode {
 }
 
 export type ReturnActionName =
-  | 'pass'
-  | 'hit_for_pass'
+  | 'abandon'
+  | 'deliver'
+  | 'deliver_stale'
+  | 'error'
+  | 'fail'
+  | 'fetch'
+  | 'hash'
   | 'lookup'
+  | 'miss'
+  | 'ok'
+  | 'pass'
   | 'pipe'
-  | 'deliver'
+  | 'purge'
+  | 'restart'
+  | 'retry'
+  | 'synth'
+  | 'upgrade'
+  | 'vcl'
 
+// `return;` has neither `action` nor `argument`
 export interface ReturnStatement extends BaseNode {
   type: 'ReturnStatement'
-  action: ReturnActionName
+  // `return(pass);`
+  action?: ReturnActionName
+  // `return (synth(404, "Not Found"));` in Varnish
+  args?: Array<Expression>
+  // `return true;` in a typed subroutine
+  argument?: Expression
 }
 
 export interface ErrorStatement extends BaseNode {
@@ -109,6 +203,31 @@ export interface SyntheticStatement extends BaseNode {
   response: Expression
 }
 
+// `synthetic.base64 "...";` with a base64-encoded response
+export interface SyntheticBase64Statement extends BaseNode {
+  type: 'SyntheticBase64Statement'
+  response: Expression
+}
+
+export interface EsiStatement extends BaseNode {
+  type: 'EsiStatement'
+}
+
+// `pragma optional_param max_object_size 2147483648;`
+export interface PragmaStatement extends BaseNode {
+  type: 'PragmaStatement'
+  name: Identifier
+  // the rest until `;` as it is
+  value: string
+}
+
+// `C{ ... }C` in legacy Varnish configs
+export interface InlineCStatement extends BaseNode {
+  type: 'InlineCStatement'
+  // between `C{` and `}C` as it is
+  body: string
+}
+
 export interface LogStatement extends BaseNode {
   type: 'LogStatement'
   content: Expression
@@ -124,6 +243,8 @@ export interface IfStatement extends BaseNode {
 export interface SubroutineStatement extends BaseNode {
   type: 'SubroutineStatement'
   id: Identifier
+  // `sub is_mobile BOOL {}` returns a value
+  returnType?: DeclareValueType
   body: Array<Statement>
 }
 
@@ -139,27 +260,45 @@ export interface BackendStatement extends BaseNode {
   body: Array<BackendDefinition>
 }
 
+// `probe name { .url = "/"; }` of Varnish, used by `.probe = name;` of backends
+export interface ProbeStatement extends BaseNode {
+  type: 'ProbeStatement'
+  id: Identifier
+  body: Array<BackendDefinition>
+}
+
+export type TableValueType =
+  | 'STRING'
+  | 'BOOL'
+  | 'INTEGER'
+  | 'FLOAT'
+  | 'RTIME'
+  | 'IP'
+  | 'BACKEND'
+  | 'ACL'
+
 export interface TableStatement extends BaseNode {
   type: 'TableStatement'
   id: Identifier
+  // `table name INTEGER {}`, values are STRING when omitted
+  valueType?: TableValueType
   body: Array<TableDefinition>
 }
 
+// Fastly's edge rate limiting, used with `ratelimit.*` functions
+export interface PenaltyboxStatement extends BaseNode {
+  type: 'PenaltyboxStatement'
+  id: Identifier
+}
+
+export interface RatecounterStatement extends BaseNode {
+  type: 'RatecounterStatement'
+  id: Identifier
+}
+
 export interface DirectorStatement extends BaseNode {
   type: 'DirectorStatement'
   id: Identifier
   directorType: Identifier
-  body: Array<
-    | {
-        key: string
-        value: string
-      }
-    | {
-        backend: string
-        attributes: Array<{
-          key: string
-          value: string
-        }>
-      }
-  >
+  body: Array<DirectorProperty | DirectorBackend>
 }
@@ -1,6 +1,7 @@
 import { Parser } from '.'
 import { Token } from './tokenizer'
 import { isToken } from '../utils/token'
+import { createError } from './create-error'
 
 interface CompoundOptions {
   until: string
@@ -20,6 +21,17 @@ export function parseCompound<T>(
     const token = p.peek()
 
     if (!token) {
+      // the block is not closed
+      if (until) {
+        const { end } = p.getCurrentToken().loc
+
+        p.raise(
+          createError(p.source, `Expected '${until}' symbol`, end, end, {
+            name: 'UnclosedBlock',
+          })
+        )
+      }
+
       break
     }
 
@@ -3,10 +3,19 @@ import { Located, Expression } from '../../nodes'
 import { Token } from '../tokenizer'
 import { isToken } from '../../utils/token'
 import { createError } from '../create-error'
-import { parseLiteral } from '../literal'
+import { parseLiteral, parseRegexLiteral } from '../literal'
 import { parseExpr } from '.'
 import { parseCompound } from '../compound'
 import { parseId } from './identifier'
+import { getIdName } from '../../utils/node'
+
+// the index of the argument which is a regex
+const regexArguments: { [name: string]: number } = {
+  regsub: 1,
+  regsuball: 1,
+  'querystring.regfilter': 1,
+  'querystring.regfilter_except': 1,
+}
 
 export function parseHumbleExpr(
   p: Parser,
@@ -24,6 +33,19 @@ export function parseHumbleExpr(
         p.take() // skip '(' symbol
 
         const args = parseCompound(p, parseExpr, { until: ')', delimiter: ',' })
+        const regexArg =
+          id.type !== 'ValuePair' ? regexArguments[getIdName(id)] : undefined
+
+        if (regexArg !== undefined) {
+          const arg = args[regexArg]
+
+          if (
+            arg &&
+            (arg.type === 'StringLiteral' || arg.type === 'MultilineLiteral')
+          ) {
+            args[regexArg] = parseRegexLiteral(p, arg)
+          }
+        }
 
         return {
           type: 'FunCallExpression',
@@ -59,6 +81,7 @@ export function parseHumbleExpr(
     p.source,
     'Expression not implemented yet',
     token.loc.start,
-    token.loc.end
+    token.loc.end,
+    { name: 'UnsupportedExpression' }
   )
 }
@@ -35,7 +35,8 @@ export function parseIdentifier(
         p.source,
         'Expected one of [Identifier]',
         token.loc.start,
-        token.loc.end
+        token.loc.end,
+        { name: 'UnexpectedNode' }
       )
     }
 
@@ -1,5 +1,6 @@
 import { Expression, Located } from '../../nodes'
 import { isToken } from '../../utils/token'
+import { VacelineSyntaxError } from '../../diagnostic'
 
 import { Token } from '../tokenizer'
 import { Parser } from '..'
@@ -16,6 +17,19 @@ export interface Stack<T> {
   length: Array<T>['length']
 }
 
+// Whether the error only tells the token can't start an expression, errors
+// inside an expression (e.g. an invalid regex in parens) are thrown as they are
+export function isBacktrackable(err: unknown, token?: Token): boolean {
+  return (
+    err instanceof SyntaxError &&
+    !(
+      token &&
+      err instanceof VacelineSyntaxError &&
+      err.diagnostic.start.offset > token.loc.start.offset
+    )
+  )
+}
+
 export function parseExpr(
   p: Parser,
   token: Token = p.read(),
@@ -33,6 +47,8 @@ export function parseExpr(
     let backup = p.getCursor()
 
     const buf = [expr]
+    // whether each expression after the first one follows `+`
+    const plus = [false]
 
     let nextToken = p.peek()
 
@@ -43,16 +59,19 @@ export function parseExpr(
         break
       }
 
-      if (isToken(nextToken, 'symbol', '+')) {
+      const isPlus = isToken(nextToken, 'symbol', '+')
+
+      if (isPlus) {
         nextToken = p.read()
       }
 
       try {
         const expr = parseHumbleExpr(p, nextToken)
         buf.push(expr)
+        plus.push(isPlus)
         backup = p.getCursor()
       } catch (err) {
-        if (err instanceof SyntaxError) {
+        if (isBacktrackable(err, nextToken)) {
           break
         } else {
           throw err
@@ -70,6 +89,40 @@ export function parseExpr(
       return expr
     }
 
+    // Varnish only joins literals without `+`, so it is kept as an operator
+    if (p.dialect !== 'fastly' && plus.includes(true)) {
+      return buildPlusExpression(buf, plus)
+    }
+
     return { type: 'ConcatExpression', body: buf }
   })
 }
+
+// `a + b c` into `a + (b c)`, nested on the right as it is printed without
+// parens then
+function buildPlusExpression(
+  buf: Array<Expression>,
+  plus: Array<boolean>
+): Expression {
+  const operands: Array<Array<Expression>> = []
+
+  buf.forEach((expr, i) => {
+    if (i === 0 || plus[i]) {
+      operands.push([expr])
+    } else {
+      operands[operands.length - 1].push(expr)
+    }
+  })
+
+  return operands
+    .map(
+      (body): Expression =>
+        body.length === 1 ? body[0] : { type: 'ConcatExpression', body }
+    )
+    .reduceRight((right, left) => ({
+      type: 'BinaryExpression',
+      left,
+      operator: '+',
+      right,
+    }))
+}
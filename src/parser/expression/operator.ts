@@ -1,5 +1,5 @@
 import { Parser } from '..'
-import { Stack } from '.'
+import { Stack, isBacktrackable } from '.'
 import {
   BinaryExpression,
   Expression,
@@ -10,6 +10,7 @@ import * as ops from '../tokenizer/operators'
 import { Token } from '../tokenizer'
 import { isToken } from '../../utils/token'
 import { parseHumbleExpr } from './humble'
+import { parseRegexLiteral } from '../literal'
 
 export function parseOperatorExpr(
   p: Parser,
@@ -56,10 +57,12 @@ export function parseOperatorExpr(
 
     opStack.push(op)
 
+    const next = p.peek()
+
     try {
       rpn.push(parseHumbleExpr(p))
     } catch (err) {
-      if (err instanceof SyntaxError) {
+      if (isBacktrackable(err, next)) {
         p.jumpTo(backup)
         break
       }
@@ -93,7 +96,11 @@ export function parseOperatorExpr(
     const expr: Located<BinaryExpression | LogicalExpression> = {
       type,
       left,
-      right,
+      right:
+        (item.value === '~' || item.value === '!~') &&
+        (right.type === 'StringLiteral' || right.type === 'MultilineLiteral')
+          ? parseRegexLiteral(p, right)
+          : right,
       operator: item.value,
       loc: { start: left.loc.start, end: right.loc.end },
     }
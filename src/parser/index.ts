@@ -7,14 +7,17 @@ import {
   Program,
   Position,
   Comment,
+  DeclareValueType,
 } from '../nodes'
 import { createError } from './create-error'
+import { VacelineDiagnostic, VacelineSyntaxError } from '../diagnostic'
 import { TokenReader } from './token-reader'
 
 import { isToken } from '../utils/token'
 import { parseStmt } from './statement/index'
 import { parseCompound } from './compound'
 import { buildDebug } from '../utils/debug'
+import { Dialect } from './keywords'
 
 const debug = {
   start: buildDebug('parser:start'),
@@ -22,7 +25,32 @@ const debug = {
   trace: buildDebug('parser:trace'),
 }
 
-export const parse = (source: string): Program => new Parser(source).parse()
+export interface ParserOptions {
+  // collect syntax errors as diagnostics and keep parsing
+  recover: boolean
+  // the flavor of VCL, which decides the statements and return actions
+  dialect: Dialect
+}
+
+export interface ParseResult {
+  ast: Program
+  diagnostics: Array<VacelineDiagnostic>
+}
+
+export function parse(
+  source: string,
+  options: Partial<ParserOptions> & { recover: true }
+): ParseResult
+export function parse(source: string, options?: Partial<ParserOptions>): Program
+export function parse(
+  source: string,
+  options: Partial<ParserOptions> = {}
+): Program | ParseResult {
+  const parser = new Parser(source, options)
+  const ast = parser.parse()
+
+  return options.recover ? { ast, diagnostics: parser.diagnostics } : ast
+}
 
 interface ParsingState {
   token: Token
@@ -30,19 +58,58 @@ interface ParsingState {
   comments?: Array<Comment>
 }
 
+interface ReaderState {
+  cursor: number
+  comments: Array<Comment>
+}
+
 export class Parser {
   source: string
+  recover: boolean
+  dialect: Dialect
+  diagnostics: Array<VacelineDiagnostic>
+  // the return type of the subroutine being parsed
+  returnType: DeclareValueType | undefined = undefined
+  // the types of the locals declared so far in the subroutine being parsed
+  locals: Map<string, DeclareValueType> = new Map()
   private reader: TokenReader
 
-  constructor(source: string /* opts: { keywords?: Array<string> } = {} */) {
-    const tokens = new Tokenizer(source).tokenize()
+  constructor(
+    source: string,
+    { recover = false, dialect = 'fastly' }: Partial<ParserOptions> = {}
+  ) {
+    const tokenizer = new Tokenizer(source, {
+      recover,
+      macros: dialect === 'fastly',
+    })
+    const tokens = tokenizer.tokenize()
 
     this.source = source
-    this.reader = new TokenReader(tokens)
+    this.recover = recover
+    this.dialect = dialect
+    this.diagnostics = tokenizer.diagnostics
+    this.reader = new TokenReader(tokens, source)
   }
 
   parse(): Located<Program> {
-    const body = parseCompound<Statement>(this, parseStmt)
+    const body = parseCompound<Statement>(this, (p, token) =>
+      parseStmt(p, token, 'program')
+    )
+
+    // `vcl 4.1;` comes before anything else
+    for (const stmt of body.slice(1)) {
+      if (stmt.type !== 'VersionStatement' || !stmt.loc) continue
+
+      this.raise(
+        createError(
+          this.source,
+          "'vcl' statements are only allowed at the beginning",
+          stmt.loc.start,
+          stmt.loc.end,
+          { name: 'MisplacedStatement', hint: 'move it to the first line' }
+        )
+      )
+    }
 
     const pos = { offset: 0, line: 1, column: 1 }
 
@@ -51,7 +118,7 @@ export class Parser {
       body,
       loc: {
         start: pos,
-        end: this.reader.getCurrentToken().loc.end,
+        end: this.getEndPosition(),
       },
     }
 
@@ -80,7 +147,7 @@ export class Parser {
     if (!node.loc) {
       node.loc = {
         start: state.pos,
-        end: this.reader.getCurrentToken().loc.end,
+        end: this.getEndPosition(),
       }
     }
 
@@ -125,7 +192,7 @@ export class Parser {
 
     while (
       token?.type === 'comment' &&
-      token.loc.start.line === this.reader.getCurrentToken().loc.end.line
+      token.loc.start.line === this.getEndPosition().line
     ) {
       this.reader.jumpTo(cur + 1)
 
@@ -141,6 +208,66 @@ export class Parser {
     return trailingComments
   }
 
+  // Throw the error, or keep it as a diagnostic in the recovery mode
+  raise(err: SyntaxError): void {
+    if (!this.recover) throw err
+
+    this.report(err)
+  }
+
+  report(err: SyntaxError): void {
+    if (err instanceof VacelineSyntaxError) {
+      this.diagnostics.push(err.diagnostic)
+
+      return
+    }
+
+    // a bare SyntaxError is located at the token read last
+    const token = this.reader.getCurrentToken()
+    const pos = token ? token.loc.end : { offset: 0, line: 1, column: 1 }
+
+    this.diagnostics.push(
+      new VacelineDiagnostic({
+        name: 'UnexpectedToken',
+        message: err.message,
+        start: pos,
+        end: pos,
+        source: this.source,
+      })
+    )
+  }
+
+  // the end of the token read last, or of the source when there is none
+  getEndPosition(): Position {
+    const token = this.reader.getCurrentToken()
+
+    if (token) return token.loc.end
+
+    const offset = this.source.length - 1
+
+    if (offset < 0) return { offset: 0, line: 1, column: 1 }
+
+    const lines = this.source.slice(0, offset).split('\n')
+
+    return {
+      offset,
+      line: lines.length,
+      column: lines[lines.length - 1].length + 1,
+    }
+  }
+
+  // for backtracking, including the comments read so far
+  saveState(): ReaderState {
+    return {
+      cursor: this.reader.getCursor(),
+      comments: this.reader.comments.slice(),
+    }
+  }
+  restoreState(state: ReaderState): void {
+    this.reader.jumpTo(state.cursor)
+    this.reader.comments = state.comments.slice()
+  }
+
   read() {
     return this.reader.read()
   }
@@ -169,7 +296,8 @@ export class Parser {
         this.source,
         'Expected one of [' + types.join(', ') + ']',
         node.loc.start,
-        node.loc.end
+        node.loc.end,
+        { name: 'UnexpectedNode' }
       )
     }
 
@@ -184,9 +312,12 @@ export class Parser {
     if (!isToken(token, type, value)) {
       throw createError(
         this.source,
-        `Expected '${value}' ${type} token`,
+        value === undefined
+          ? `Expected ${type} token`
+          : `Expected '${value}' ${type} token`,
         token.loc.start,
-        token.loc.end
+        token.loc.end,
+        { name: 'UnexpectedToken' }
       )
     }
 
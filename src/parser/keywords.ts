@@ -1,3 +1,5 @@
+import { ReturnActionName, StatementType } from '../nodes'
+
 export const topLevelKeywords = new Set([
   'include',
   'import',
@@ -5,15 +7,84 @@ export const topLevelKeywords = new Set([
   'acl',
   'backend',
   'table',
+  'penaltybox',
+  'ratecounter',
 ])
 
-export const keywords = new Set([
-  // statement directives
+export type StatementContext = 'program' | 'subroutine' | 'if-branch'
+
+const declarations: Array<StatementType> = [
+  'AclStatement',
+  'BackendStatement',
+  'DirectorStatement',
+  'ImportStatement',
+  'PenaltyboxStatement',
+  'PragmaStatement',
+  'ProbeStatement',
+  'RatecounterStatement',
+  'SubroutineStatement',
+  'TableStatement',
+  'VersionStatement',
+]
+
+const actions: Array<StatementType> = [
+  'AddStatement',
+  'CallStatement',
+  'DeclareStatement',
+  'ErrorStatement',
+  'EsiStatement',
+  'ExpressionStatement',
+  'FastlyMacroStatement',
+  'GotoStatement',
+  'IfStatement',
+  'LabelStatement',
+  'LogStatement',
+  'NewStatement',
+  'RestartStatement',
+  'ReturnStatement',
+  'SetStatement',
+  'SyntheticStatement',
+  'SyntheticBase64Statement',
+  'UnsetStatement',
+]
+
+const anywhere: Array<StatementType> = [
+  'BogusStatement',
+  'IncludeStatement',
+  'InlineCStatement',
+]
+
+/**
+ * Statements allowed in each context: declarations at the top level and
+ * actions in subroutines and the branches of if statements
+ */
+export const allowedStatements: {
+  [K in StatementContext]: ReadonlySet<StatementType>
+} = {
+  program: new Set([...declarations, ...anywhere]),
+  subroutine: new Set([...actions, ...anywhere]),
+  'if-branch': new Set([...actions, ...anywhere]),
+}
+
+export type Dialect = 'fastly' | 'varnish4' | 'varnish6'
+
+export interface DialectSpec {
+  // the keywords statements start with
+  keywords: ReadonlySet<string>
+  returnActions: ReadonlySet<ReturnActionName>
+  // the number of arguments of actions like `return (synth(404, "Not Found"));`
+  actionArguments: {
+    [action: string]: { min: number; max: number } | undefined
+  }
+  // of `vcl 4.1;`, which only Varnish has
+  versions: ReadonlyArray<string>
+}
+
+const fastlyKeywords = [
   'call',
   'declare',
   'local',
-  'declare',
-  'local',
+  'goto',
   'add',
   'set',
   'unset',
@@ -21,25 +92,93 @@ export const keywords = new Set([
   'error',
   'restart',
   'synthetic',
+  'esi',
+  'pragma',
   'log',
   'if',
   'else',
   'director',
   ...topLevelKeywords,
-])
+]
+
+const varnishKeywords = [
+  'call',
+  'set',
+  'unset',
+  'return',
+  'synthetic',
+  'if',
+  'else',
+  'new',
+  'vcl',
+  'include',
+  'import',
+  'sub',
+  'acl',
+  'backend',
+  'probe',
+]
 
-// https://book.varnish-software.com/4.0/chapters/VCL_Basics.html#legal-return-actions
-export const returnActions = new Set([
+// https://varnish-cache.org/docs/4.1/users-guide/vcl-built-in-subs.html
+const varnish4ReturnActions: Array<ReturnActionName> = [
+  'abandon',
   'deliver',
   'fetch',
-  'restart',
   'hash',
+  'lookup',
+  'miss',
+  'ok',
   'pass',
   'pipe',
-  'synth',
   'purge',
-  'lookup',
+  'restart',
+  'retry',
+  'synth',
+]
 
-  // Fastly
-  'deliver_stale',
-])
+export const dialects: { [K in Dialect]: DialectSpec } = {
+  fastly: {
+    keywords: new Set(fastlyKeywords),
+    // https://developer.fastly.com/reference/vcl/subroutines/
+    returnActions: new Set<ReturnActionName>([
+      'deliver',
+      'deliver_stale',
+      'fetch',
+      'hash',
+      'lookup',
+      'pass',
+      'pipe',
+      'restart',
+      'upgrade',
+    ]),
+    actionArguments: {},
+    versions: [],
+  },
+  varnish4: {
+    keywords: new Set(varnishKeywords),
+    returnActions: new Set(varnish4ReturnActions),
+    actionArguments: {
+      synth: { min: 1, max: 2 },
+    },
+    versions: ['4.0'],
+  },
+  varnish6: {
+    keywords: new Set(varnishKeywords),
+    // https://varnish-cache.org/docs/6.0/users-guide/vcl-built-in-subs.html
+    returnActions: new Set<ReturnActionName>([
+      ...varnish4ReturnActions,
+      'error',
+      'fail',
+      'vcl',
+    ]),
+    actionArguments: {
+      error: { min: 0, max: 2 },
+      synth: { min: 1, max: 2 },
+      vcl: { min: 1, max: 1 },
+    },
+    versions: ['4.0', '4.1'],
+  },
+}
+
+// the keywords of every dialect, to tell statements from expressions
+export const keywords = new Set([...fastlyKeywords, ...varnishKeywords])
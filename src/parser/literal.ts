@@ -1,10 +1,19 @@
-import { Literal, Located } from '../nodes'
+import {
+  DurationUnit,
+  Literal,
+  Located,
+  MultilineLiteral,
+  Position,
+  RegexLiteral,
+  StringLiteral,
+} from '../nodes'
 
 import { Token } from './tokenizer'
 import { createError } from './create-error'
 import { Parser } from '.'
 import { isToken } from '../utils/token'
 import { parseIp } from './statement/ip'
+import { parseRegex, RegexError } from './regex'
 
 export function parseLiteral(
   p: Parser,
@@ -22,41 +31,239 @@ export function parseLiteral(
       return parseIp(p, token)
     }
 
+    const long = /^{(\w*)"/.exec(token.value)
+
+    if (long) {
+      return p.parseNode(token, () => ({
+        type: 'MultilineLiteral',
+        value: token.value,
+        delimiter: long[1],
+        cooked: token.value.slice(long[0].length, -long[0].length),
+      }))
+    }
+
     return p.parseNode(token, () => ({
       type: 'StringLiteral',
       value: token.value,
+      cooked: cookString(p, token),
     }))
   }
 
   if (token.type === 'numeric') {
-    if (isToken(p.peek(), 'ident', /ms|s|m|h|d|y/)) {
-      return p.parseNode(token, () => ({
-        type: 'DurationLiteral',
-        value: token.value + p.read().value,
-      }))
+    const number = parseNumber(token.value)
+
+    if (number === undefined) {
+      throw createError(
+        p.source,
+        'Invalid number',
+        token.loc.start,
+        token.loc.end,
+        {
+          name: 'InvalidNumber',
+          hint:
+            'numbers are decimal without padded zeros (`-1`, `1.5e3`) or hexadecimal (`0x1F`, `0x1.8p3`)',
+        }
+      )
     }
 
-    if (!Number.isNaN(Number(token.value))) {
-      if (
-        token.value.startsWith('.') ||
-        (token.value.length !== 1 && token.value.startsWith('0'))
-      ) {
+    if (isToken(p.peek(), 'ident', reDurationUnit)) {
+      return p.parseNode(token, () => {
+        const unit = p.read().value as DurationUnit
+
+        return {
+          type: 'DurationLiteral',
+          value: token.value + unit,
+          number,
+          unit,
+        }
+      })
+    }
+
+    return p.parseNode(token, () => ({
+      type: 'NumericLiteral',
+      value: token.value,
+      number,
+    }))
+  }
+
+  return null
+}
+
+// Turn a string used as a regex into RegexLiteral after validating it
+export function parseRegexLiteral(
+  p: Parser,
+  literal: Located<StringLiteral | MultilineLiteral>
+): Located<RegexLiteral> {
+  const { value, cooked: pattern, loc } = literal
+
+  try {
+    parseRegex(pattern)
+  } catch (err) {
+    if (!(err instanceof RegexError)) throw err
+
+    p.raise(
+      createError(
+        p.source,
+        `Invalid regex: ${err.message}`,
+        getPatternPosition(literal, err.index),
+        getPatternPosition(literal, err.index + err.length - 1),
+        { name: 'InvalidRegex' }
+      )
+    )
+  }
+
+  return {
+    type: 'RegexLiteral',
+    value,
+    pattern,
+    loc,
+    leadingComments: literal.leadingComments,
+    innerComments: literal.innerComments,
+    trailingComments: literal.trailingComments,
+  }
+}
+
+// The position of the character at the index of the cooked string or pattern
+export function getPatternPosition(
+  literal: Located<StringLiteral | MultilineLiteral | RegexLiteral>,
+  index: number
+): Position {
+  const { value, loc } = literal
+  const long = /^{(\w*)"/.exec(value)
+  const prefix = long ? long[0].length : 1
+  const content = value.slice(prefix, -prefix)
+  const cooked =
+    literal.type === 'RegexLiteral' ? literal.pattern : literal.cooked
+  // long strings have no escapes, nor strings in Varnish
+  const rawIndex =
+    long || content === cooked ? index : getRawIndex(content, index)
+
+  return advance(loc.start, value.slice(0, prefix + rawIndex))
+}
+
+// runs of `%xx` are decoded together as they can be bytes of one character
+const reEscape = /((?:%[\da-fA-F]{2})+)|%u\{([\da-fA-F]{1,6})\}|%u([\da-fA-F]{4})|%/g
+
+// Decode an escape matched with reEscape, undefined if it's invalid
+function decodeEscape(
+  bytes?: string,
+  braced?: string,
+  code?: string
+): string | undefined {
+  if (bytes) return decodeBytes(bytes)
+
+  const codePoint = parseInt(braced || code || '', 16)
+
+  return codePoint > 0 && codePoint <= 0x10ffff
+    ? String.fromCodePoint(codePoint)
+    : undefined
+}
+
+// Decode the escapes in a quoted string, which only Fastly has
+function cookString(p: Parser, token: Token): string {
+  const content = token.value.slice(1, -1)
+
+  if (p.dialect !== 'fastly') return content
+
+  return content.replace(
+    reEscape,
+    (escape, bytes?: string, braced?: string, code?: string, index = 0) => {
+      const decoded = decodeEscape(bytes, braced, code)
+
+      if (decoded === undefined) {
+        // 1 for the opening quote
+        const start = advance(token.loc.start, token.value.slice(0, 1 + index))
+
         throw createError(
           p.source,
-          'Invalid number',
-          token.loc.start,
-          token.loc.end
+          `Invalid escape '${escape}'`,
+          start,
+          advance(start, escape.slice(1)),
+          {
+            name: 'InvalidEscape',
+            hint: 'escapes are `%xx`, `%uxxxx` or `%u{x}`, write `%25` for `%`',
+          }
         )
       }
 
-      return p.parseNode(token, () => ({
-        type: 'NumericLiteral',
-        value: token.value,
-      }))
+      return decoded
     }
+  )
+}
+
+// The index in the content of a quoted string for the index in its cooked one
+function getRawIndex(content: string, cookedIndex: number): number {
+  let raw = 0
+  let cooked = 0
+  let match: RegExpExecArray | null
+
+  reEscape.lastIndex = 0
+
+  while ((match = reEscape.exec(content))) {
+    const plain = match.index - raw
+
+    if (cookedIndex < cooked + plain) break
+
+    cooked += plain
+
+    const decoded = decodeEscape(match[1], match[2], match[3]) || ''
+
+    // within the escape
+    if (cookedIndex < cooked + decoded.length) return match.index
 
-    throw createError(p.source, 'Invalid token', token.loc.start, token.loc.end)
+    cooked += decoded.length
+    raw = match.index + match[0].length
   }
 
-  return null
+  return raw + cookedIndex - cooked
+}
+
+// The position of the character right after the text from the position
+function advance(pos: Position, text: string): Position {
+  const lines = text.split('\n')
+
+  return {
+    offset: pos.offset + text.length,
+    line: pos.line + lines.length - 1,
+    column:
+      lines.length > 1
+        ? lines[lines.length - 1].length + 1
+        : pos.column + text.length,
+  }
+}
+
+// `%C3%A9` is `é` in UTF-8, bytes which are not UTF-8 are decoded one by one
+function decodeBytes(bytes: string): string {
+  try {
+    return decodeURIComponent(bytes)
+  } catch (err) {
+    return bytes.replace(/%([\da-fA-F]{2})/g, (_, byte) =>
+      String.fromCharCode(parseInt(byte, 16))
+    )
+  }
+}
+
+const reDurationUnit = /^(ms|s|m|h|d|y)$/
+const reDecimal = /^-?((0|[1-9]\d*)(\.\d+)?|\.\d+)([eE][-+]?\d+)?$/
+const reHex = /^(-?)0[xX]([\da-fA-F]+)(?:\.([\da-fA-F]+))?(?:[pP]([-+]?\d+))?$/
+
+// Parse INTEGER and FLOAT literals, returns undefined if invalid
+function parseNumber(raw: string): number | undefined {
+  if (reDecimal.test(raw)) {
+    return Number(raw)
+  }
+
+  const hex = reHex.exec(raw)
+
+  if (hex) {
+    const [, sign, int, fraction = '', exponent = '0'] = hex
+    // e.g. 0x1.8p3 is 0x18 / 16 * 2^3
+    const number =
+      (parseInt(int + fraction, 16) / Math.pow(16, fraction.length)) *
+      Math.pow(2, Number(exponent))
+
+    return sign ? -number : number
+  }
+
+  return undefined
 }
@@ -0,0 +1,378 @@
+// A syntax tree of PCRE patterns, just enough to validate and analyze them.
+// Positions are indexes of the pattern, `end` is exclusive.
+
+export type RegexNode =
+  | RegexAlternation
+  | RegexSequence
+  | RegexGroup
+  | RegexQuantifier
+  | RegexAtom
+
+interface RegexBase {
+  start: number
+  end: number
+}
+
+export interface RegexAlternation extends RegexBase {
+  type: 'Alternation'
+  alternatives: Array<RegexSequence>
+}
+
+export interface RegexSequence extends RegexBase {
+  type: 'Sequence'
+  body: Array<RegexNode>
+}
+
+export type RegexGroupKind =
+  | 'capturing'
+  | 'non-capturing'
+  | 'lookahead'
+  | 'lookbehind'
+  | 'atomic'
+
+export interface RegexGroup extends RegexBase {
+  type: 'Group'
+  kind: RegexGroupKind
+  body: RegexAlternation
+}
+
+export interface RegexQuantifier extends RegexBase {
+  type: 'Quantifier'
+  body: RegexNode
+  min: number
+  max: number
+  lazy: boolean
+  possessive: boolean
+}
+
+export interface RegexAtom extends RegexBase {
+  // `Option` is for inline options, comments and recursions like `(?i)`
+  type: 'Char' | 'Any' | 'Class' | 'Escape' | 'Assertion' | 'Option'
+  raw: string
+}
+
+export class RegexError extends Error {
+  index: number
+  length: number
+
+  constructor(message: string, index: number, length = 1) {
+    super(message)
+
+    this.index = index
+    this.length = length
+  }
+}
+
+const reName = /[A-Za-z_]\w*/.source
+const reGroupHead = new RegExp(
+  `^\\?(?:[:|]|[=!]|<[=!]|>|P?<${reName}>|'${reName}'|[imsxJUn]*(?:-[imsxJUn]*)?:)`
+)
+const reOption = new RegExp(
+  `^\\?(?:#[^)]*|[imsxJUn]*(?:-[imsxJUn]*)?|P[=>]${reName}|&${reName}|R|[-+]?\\d+)\\)`
+)
+const reBraceQuantifier = /^{(\d+)(,(\d*))?}/
+const assertionEscapes = new Set(['b', 'B', 'A', 'z', 'Z', 'G'])
+
+function getGroupKind(head: string): RegexGroupKind {
+  if (/^\?[=!]/.test(head)) return 'lookahead'
+  if (/^\?<[=!]/.test(head)) return 'lookbehind'
+  if (head === '?>') return 'atomic'
+  // named groups
+  if (/^\?P?[<']/.test(head)) return 'capturing'
+
+  return 'non-capturing'
+}
+
+// Parse the pattern, throws RegexError for what PCRE fails to compile
+export function parseRegex(pattern: string): RegexAlternation {
+  return new RegexParser(pattern).parse()
+}
+
+class RegexParser {
+  pattern: string
+  pos = 0
+
+  constructor(pattern: string) {
+    this.pattern = pattern
+  }
+
+  parse(): RegexAlternation {
+    const alternation = this.parseAlternation()
+
+    if (this.pos < this.pattern.length) {
+      throw new RegexError('Unmatched closing parenthesis', this.pos)
+    }
+
+    return alternation
+  }
+
+  parseAlternation(): RegexAlternation {
+    const start = this.pos
+    const alternatives = [this.parseSequence()]
+
+    while (this.pattern[this.pos] === '|') {
+      this.pos++
+      alternatives.push(this.parseSequence())
+    }
+
+    return { type: 'Alternation', alternatives, start, end: this.pos }
+  }
+
+  parseSequence(): RegexSequence {
+    const start = this.pos
+    const body: Array<RegexNode> = []
+
+    while (this.pos < this.pattern.length) {
+      const char = this.pattern[this.pos]
+
+      if (char === '|' || char === ')') break
+
+      if (this.isQuantifier()) {
+        const target = body.pop()
+
+        if (!target || target.type === 'Quantifier') {
+          throw new RegexError('Nothing to repeat', this.pos)
+        }
+
+        body.push(this.parseQuantifier(target))
+      } else {
+        body.push(this.parseAtom())
+      }
+    }
+
+    return { type: 'Sequence', body, start, end: this.pos }
+  }
+
+  isQuantifier(): boolean {
+    const char = this.pattern[this.pos]
+
+    return (
+      char === '*' ||
+      char === '+' ||
+      char === '?' ||
+      (char === '{' && reBraceQuantifier.test(this.pattern.slice(this.pos)))
+    )
+  }
+
+  parseQuantifier(body: RegexNode): RegexQuantifier {
+    const start = this.pos
+    const char = this.pattern[this.pos]
+
+    let min = 0
+    let max = Infinity
+
+    if (char === '{') {
+      const [raw, from, comma, to] = reBraceQuantifier.exec(
+        this.pattern.slice(this.pos)
+      ) as RegExpExecArray
+
+      min = Number(from)
+      max = comma ? (to ? Number(to) : Infinity) : min
+
+      if (min > max) {
+        throw new RegexError(
+          'Numbers out of order in {} quantifier',
+          start,
+          raw.length
+        )
+      }
+
+      this.pos += raw.length
+    } else {
+      if (char === '+') min = 1
+      if (char === '?') max = 1
+
+      this.pos++
+    }
+
+    const suffix = this.pattern[this.pos]
+    const lazy = suffix === '?'
+    const possessive = suffix === '+'
+
+    if (lazy || possessive) this.pos++
+
+    return {
+      type: 'Quantifier',
+      body,
+      min,
+      max,
+      lazy,
+      possessive,
+      start: body.start,
+      end: this.pos,
+    }
+  }
+
+  parseAtom(): RegexNode {
+    const start = this.pos
+    const char = this.pattern[this.pos]
+
+    switch (char) {
+      case '(':
+        return this.parseGroup()
+      case '[':
+        return this.parseClass()
+      case '\\':
+        return this.parseEscape()
+    }
+
+    this.pos++
+
+    const type = char === '.' ? 'Any' : /[$^]/.test(char) ? 'Assertion' : 'Char'
+
+    return { type, raw: char, start, end: this.pos }
+  }
+
+  parseGroup(): RegexNode {
+    const start = this.pos
+    const rest = this.pattern.slice(++this.pos)
+
+    let kind: RegexGroupKind = 'capturing'
+
+    if (rest.startsWith('?')) {
+      const option = reOption.exec(rest)
+
+      if (option) {
+        this.pos += option[0].length
+
+        return {
+          type: 'Option',
+          raw: this.pattern.slice(start, this.pos),
+          start,
+          end: this.pos,
+        }
+      }
+
+      const head = reGroupHead.exec(rest)
+
+      if (!head) {
+        throw new RegexError('Unrecognized character after (?', this.pos + 1)
+      }
+
+      kind = getGroupKind(head[0])
+      this.pos += head[0].length
+    }
+
+    const body = this.parseAlternation()
+
+    if (this.pattern[this.pos] !== ')') {
+      throw new RegexError('Missing closing parenthesis', start)
+    }
+
+    this.pos++
+
+    return { type: 'Group', kind, body, start, end: this.pos }
+  }
+
+  parseClass(): RegexAtom {
+    const start = this.pos
+
+    this.pos++
+
+    if (this.pattern[this.pos] === '^') this.pos++
+    // `]` right after `[` or `[^` is a literal
+    if (this.pattern[this.pos] === ']') this.pos++
+
+    while (this.pattern[this.pos] !== ']') {
+      if (this.pos >= this.pattern.length) {
+        throw new RegexError('Missing terminating ] for character class', start)
+      }
+
+      const rangeStart = this.pos
+      const from = this.parseClassChar()
+
+      if (
+        this.pattern[this.pos] === '-' &&
+        this.pos + 1 < this.pattern.length &&
+        this.pattern[this.pos + 1] !== ']'
+      ) {
+        this.pos++
+
+        const to = this.parseClassChar()
+
+        if (from !== undefined && to !== undefined && from > to) {
+          throw new RegexError(
+            'Range out of order in character class',
+            rangeStart,
+            this.pos - rangeStart
+          )
+        }
+      }
+    }
+
+    this.pos++
+
+    return {
+      type: 'Class',
+      raw: this.pattern.slice(start, this.pos),
+      start,
+      end: this.pos,
+    }
+  }
+
+  // Returns the char code if it's a single character
+  parseClassChar(): number | undefined {
+    const char = this.pattern[this.pos]
+
+    if (char === '[') {
+      const posix = /^\[:\^?[a-z]+:]/.exec(this.pattern.slice(this.pos))
+
+      if (posix) {
+        this.pos += posix[0].length
+
+        return undefined
+      }
+    }
+
+    if (char === '\\') {
+      const escape = this.parseEscape()
+
+      return escape.type === 'Char' ||
+        (escape.raw.length === 2 && !/[A-Za-z0-9]/.test(escape.raw[1]))
+        ? escape.raw.charCodeAt(escape.raw.length - 1)
+        : undefined
+    }
+
+    this.pos++
+
+    return char.charCodeAt(0)
+  }
+
+  parseEscape(): RegexAtom {
+    const start = this.pos
+    const rest = this.pattern.slice(this.pos + 1)
+
+    if (!rest) {
+      throw new RegexError('\\ at end of pattern', start)
+    }
+
+    const char = rest[0]
+
+    let type: RegexAtom['type'] = 'Escape'
+    let length = 1
+
+    if (assertionEscapes.has(char)) {
+      type = 'Assertion'
+    } else if (char === 'Q') {
+      // everything until `\E` is literal
+      const end = rest.indexOf('\\E')
+      length = end === -1 ? rest.length : end + 2
+      type = 'Char'
+    } else {
+      const argument = /^(?:[xopPkg]\{[^}]*}|x[\da-fA-F]{0,2}|[pP][A-Za-z]|k<\w+>|k'\w+'|g-?\d+|\d+)/.exec(
+        rest
+      )
+
+      if (argument) length = argument[0].length
+    }
+
+    this.pos += 1 + length
+
+    return {
+      type,
+      raw: this.pattern.slice(start, this.pos),
+      start,
+      end: this.pos,
+    }
+  }
+}
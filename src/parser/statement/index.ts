@@ -1,28 +1,191 @@
 import {
+  AssignmentOperator,
   BackendDefinition,
+  BogusStatement,
   DeclareValueType,
+  DirectorBackend,
+  DirectorProperty,
   DirectorStatement,
+  Expression,
+  Identifier,
   IfStatement,
+  Literal,
+  Located,
+  Member,
   ReturnActionName,
   Statement,
   TableDefinition,
   TableStatement,
+  TableValueType,
+  ValuePair,
 } from '../../nodes'
 import { isToken } from '../../utils/token'
 
 import { parseExpr } from '../expression'
 import { createError } from '../create-error'
 import { Parser } from '..'
-import { keywords, returnActions } from '../keywords'
-import { parseIp } from './ip'
+import {
+  allowedStatements,
+  dialects,
+  keywords,
+  StatementContext,
+} from '../keywords'
+import { parseAclEntry, parseIp } from './ip'
 import { Token } from '../tokenizer'
 import { parseCompound } from '../compound'
 import { parseId, parseIdentifier } from '../expression/identifier'
 import { parseLiteral } from '../literal'
+import { assignableTypes, isAssignmentOperator } from '../tokenizer/operators'
+import { getIdName } from '../../utils/node'
 
 const ensureSemi = (p: Parser) => p.validateToken(p.read(), 'symbol', ';')
 
-export function parseStmt(p: Parser, token: Token = p.read()): Statement {
+/**
+ * Parse a statement, which is checked to be allowed in the context if any.
+ * Without the context any statement is parsed, e.g. for a fragment of code.
+ */
+export function parseStmt(
+  p: Parser,
+  token: Token = p.read(),
+  context?: StatementContext
+): Statement {
+  const stmt = p.recover
+    ? parseStmtRecovering(p, token)
+    : parseStmtStrict(p, token)
+
+  if (context && !allowedStatements[context].has(stmt.type)) {
+    p.raise(
+      createError(
+        p.source,
+        `${describeStatement(stmt, token)} are not allowed ${
+          contextNames[context]
+        }`,
+        token.loc.start,
+        token.loc.end,
+        {
+          name: 'MisplacedStatement',
+          hint:
+            context === 'program'
+              ? 'move it into a subroutine'
+              : 'move it to the top level',
+        }
+      )
+    )
+  }
+
+  return stmt
+}
+
+const contextNames: { [K in StatementContext]: string } = {
+  program: 'at the top level',
+  subroutine: 'in subroutines',
+  'if-branch': 'in if statements',
+}
+
+function describeStatement(stmt: Statement, token: Token): string {
+  switch (stmt.type) {
+    case 'ExpressionStatement':
+      return 'Expressions'
+    case 'LabelStatement':
+      return 'Labels'
+    case 'FastlyMacroStatement':
+      return 'Fastly macros'
+    default:
+      return `'${token.value}' statements`
+  }
+}
+
+function describeArity(arity?: { min: number; max: number }): string {
+  if (!arity || arity.max === 0) return 'no arguments'
+
+  const count =
+    arity.min === arity.max ? `${arity.min}` : `${arity.min} to ${arity.max}`
+
+  return count === '1' ? '1 argument' : `${count} arguments`
+}
+
+function parseStmtRecovering(p: Parser, token: Token): Statement {
+  const state = p.saveState()
+
+  try {
+    return parseStmtStrict(p, token)
+  } catch (err) {
+    if (!(err instanceof SyntaxError)) throw err
+
+    p.report(err)
+    p.restoreState(state)
+
+    return parseBogusStatement(p, token)
+  }
+}
+
+// Skip to the end of the statement: `;` or the end of a block, and leave
+// the `}` which closes the enclosing block
+function parseBogusStatement(p: Parser, token: Token): BogusStatement {
+  const node = p.parseNode(token, () => {
+    let depth = isToken(token, 'symbol', '{') ? 1 : 0
+    let done = isToken(token, 'symbol', /^[;}]$/)
+
+    while (!done) {
+      const next = p.peek()
+
+      if (!next || (depth === 0 && isToken(next, 'symbol', '}'))) break
+
+      p.take()
+
+      if (isToken(next, 'symbol', '{')) {
+        depth++
+      } else if (isToken(next, 'symbol', '}')) {
+        done = --depth === 0
+      } else if (isToken(next, 'symbol', ';')) {
+        done = depth === 0
+      }
+    }
+
+    const end = p.getCurrentToken().loc.end
+
+    return {
+      type: 'BogusStatement',
+      raw: p.source.slice(token.loc.start.offset, end.offset + 1),
+      loc: { start: token.loc.start, end },
+    }
+  })
+
+  // the comments inside are part of `raw`
+  node.innerComments = []
+
+  return node
+}
+
+function parseStmtStrict(p: Parser, token: Token): Statement {
+  if (token.type === 'inline-c') {
+    return p.parseNode(token, () => ({
+      type: 'InlineCStatement',
+      body: token.value.slice('C{'.length, -'}C'.length),
+    }))
+  }
+
+  if (token.type === 'macro') {
+    return p.parseNode(token, () => ({
+      type: 'FastlyMacroStatement',
+      subroutine: token.value.slice('#FASTLY'.length).trim(),
+    }))
+  }
+
+  if (
+    token.type === 'ident' &&
+    !keywords.has(token.value) &&
+    isToken(p.peek(), 'symbol', ':')
+  ) {
+    return p.parseNode(token, () => {
+      const label = parseIdentifier(p, token)
+
+      p.validateToken(p.read(), 'symbol', ':')
+
+      return { type: 'LabelStatement', label }
+    })
+  }
+
   if (!keywords.has(token.value)) {
     return p.parseNode(token, () => {
       const body = parseExpr(p, token)
@@ -33,10 +196,22 @@ export function parseStmt(p: Parser, token: Token = p.read()): Statement {
     })
   }
 
+  if (!dialects[p.dialect].keywords.has(token.value)) {
+    p.raise(
+      createError(
+        p.source,
+        `'${token.value}' statements are not supported in ${p.dialect}`,
+        token.loc.start,
+        token.loc.end,
+        { name: 'UnsupportedStatement' }
+      )
+    )
+  }
+
   if (token.value === 'set' || token.value === 'add') {
     return p.parseNode(token, () => {
       const left = parseId(p)
-      const operator = p.validateToken(p.read(), 'operator').value
+      const operator = parseAssignmentOperator(p, left)
       const right = parseExpr(p)
 
       ensureSemi(p)
@@ -67,7 +242,8 @@ export function parseStmt(p: Parser, token: Token = p.read()): Statement {
           p.source,
           'Expected one of [StringLiteral]',
           moduleToken.loc.start,
-          moduleToken.loc.end
+          moduleToken.loc.end,
+          { name: 'UnexpectedNode' }
         )
       }
 
@@ -90,6 +266,47 @@ export function parseStmt(p: Parser, token: Token = p.read()): Statement {
     })
   }
 
+  if (token.value === 'vcl') {
+    return p.parseNode(token, () => {
+      const versionToken = p.validateToken(p.read(), 'numeric')
+      const { versions } = dialects[p.dialect]
+
+      if (versions.length > 0 && !versions.includes(versionToken.value)) {
+        throw createError(
+          p.source,
+          `Unsupported VCL version '${versionToken.value}'`,
+          versionToken.loc.start,
+          versionToken.loc.end,
+          {
+            name: 'UnsupportedStatement',
+            hint: `${p.dialect} supports ${versions.join(', ')}`,
+          }
+        )
+      }
+
+      ensureSemi(p)
+
+      return { type: 'VersionStatement', version: versionToken.value }
+    })
+  }
+
+  if (token.value === 'new') {
+    return p.parseNode(token, () => {
+      const id = p.validateNode(parseId(p), 'Identifier')
+
+      p.validateToken(p.read(), 'operator', '=')
+
+      const value = p.validateNode(
+        parseExpr(p) as Located<Expression>,
+        'FunCallExpression'
+      )
+
+      ensureSemi(p)
+
+      return { type: 'NewStatement', id, value }
+    })
+  }
+
   if (token.value === 'call') {
     return p.parseNode(token, () => {
       const subroutine = parseIdentifier(p)
@@ -100,6 +317,16 @@ export function parseStmt(p: Parser, token: Token = p.read()): Statement {
     })
   }
 
+  if (token.value === 'goto') {
+    return p.parseNode(token, () => {
+      const label = parseIdentifier(p)
+
+      ensureSemi(p)
+
+      return { type: 'GotoStatement', label }
+    })
+  }
+
   if (token.value === 'declare') {
     return p.parseNode(token, () => {
       p.validateToken(p.read(), 'ident', 'local')
@@ -111,40 +338,83 @@ export function parseStmt(p: Parser, token: Token = p.read()): Statement {
 
       ensureSemi(p)
 
+      p.locals.set(getIdName(id), valueType)
+
       return { type: 'DeclareStatement', id, valueType }
     })
   }
 
   if (token.value === 'return') {
     return p.parseNode(token, () => {
-      let returnActionToken: Token
-
-      // `()` can be skipped
-      if (isToken(p.peek(), 'symbol', '(')) {
+      if (isToken(p.peek(), 'symbol', ';')) {
         p.take()
 
-        returnActionToken = p.read()
+        return { type: 'ReturnStatement' }
+      }
 
-        p.validateToken(p.read(), 'symbol', ')')
-      } else {
-        returnActionToken = p.read()
+      if (p.returnType) {
+        const argument = parseExpr(p)
+
+        ensureSemi(p)
+
+        return { type: 'ReturnStatement', argument }
       }
 
-      if (!returnActions.has(returnActionToken.value)) {
+      // `()` can be skipped
+      const parens = isToken(p.peek(), 'symbol', '(')
+
+      if (parens) p.take()
+
+      const returnActionToken = p.read()
+      const { returnActions, actionArguments } = dialects[p.dialect]
+
+      if (!returnActions.has(returnActionToken.value as ReturnActionName)) {
         throw createError(
           p.source,
-          'return action should be one of ' +
-            Array.from(returnActions.values()).join(', '),
+          `Invalid return action '${returnActionToken.value}'`,
           returnActionToken.loc.start,
-          returnActionToken.loc.end
+          returnActionToken.loc.end,
+          {
+            name: 'InvalidReturnAction',
+            hint:
+              `return action in ${p.dialect} should be one of ` +
+              Array.from(returnActions.values()).join(', '),
+          }
         )
       }
 
       const action = returnActionToken.value as ReturnActionName
+      const arity = actionArguments[action]
+
+      // `synth(404, "Not Found")`
+      let args: Array<Expression> | undefined
+
+      if (isToken(p.peek(), 'symbol', '(')) {
+        p.take()
+        args = parseCompound(p, parseExpr, { until: ')', delimiter: ',' })
+      }
+
+      const count = args ? args.length : 0
+
+      if (arity ? count < arity.min || count > arity.max : args) {
+        throw createError(
+          p.source,
+          `Return action '${action}' expects ${describeArity(
+            arity
+          )} but got ${count}`,
+          returnActionToken.loc.start,
+          p.getCurrentToken().loc.end,
+          { name: 'InvalidReturnAction' }
+        )
+      }
+
+      if (parens) p.validateToken(p.read(), 'symbol', ')')
 
       ensureSemi(p)
 
-      return { type: 'ReturnStatement', action }
+      return args
+        ? { type: 'ReturnStatement', action, args }
+        : { type: 'ReturnStatement', action }
     })
   }
 
@@ -181,11 +451,46 @@ export function parseStmt(p: Parser, token: Token = p.read()): Statement {
 
   if (token.value === 'synthetic') {
     return p.parseNode(token, () => {
+      const isBase64 = isToken(p.peek(), 'symbol', '.')
+
+      if (isBase64) {
+        p.take()
+        p.validateToken(p.read(), 'ident', 'base64')
+      }
+
       const response = parseExpr(p)
 
       ensureSemi(p)
 
-      return { type: 'SyntheticStatement', response }
+      const type = isBase64 ? 'SyntheticBase64Statement' : 'SyntheticStatement'
+
+      return { type, response }
+    })
+  }
+
+  if (token.value === 'esi') {
+    return p.parseNode(token, () => {
+      ensureSemi(p)
+
+      return { type: 'EsiStatement' }
+    })
+  }
+
+  if (token.value === 'pragma') {
+    return p.parseNode(token, () => {
+      const name = parseIdentifier(p)
+
+      let end = name.loc.end
+
+      while (!isToken(p.peek(), 'symbol', ';')) {
+        end = p.read().loc.end
+      }
+
+      ensureSemi(p)
+
+      const value = p.source.slice(name.loc.end.offset + 1, end.offset + 1)
+
+      return { type: 'PragmaStatement', name, value: value.trim() }
     })
   }
 
@@ -206,11 +511,31 @@ export function parseStmt(p: Parser, token: Token = p.read()): Statement {
   if (token.value === 'sub') {
     return p.parseNode(token, () => {
       const id = parseIdentifier(p)
+
+      const returnType = isToken(p.peek(), 'ident')
+        ? parseReturnType(p, p.read())
+        : undefined
+
       p.validateToken(p.read(), 'symbol', '{')
 
-      const body = parseCompound(p, parseStmt, { until: '}' })
+      const { returnType: outerReturnType, locals: outerLocals } = p
+      p.returnType = returnType
+      p.locals = new Map()
+
+      try {
+        const body = parseCompound(
+          p,
+          (p, token) => parseStmt(p, token, 'subroutine'),
+          { until: '}' }
+        )
 
-      return { type: 'SubroutineStatement', id, body }
+        return returnType
+          ? { type: 'SubroutineStatement', id, returnType, body }
+          : { type: 'SubroutineStatement', id, body }
+      } finally {
+        p.returnType = outerReturnType
+        p.locals = outerLocals
+      }
     })
   }
 
@@ -220,7 +545,10 @@ export function parseStmt(p: Parser, token: Token = p.read()): Statement {
 
       p.validateToken(p.read(), 'symbol', '{')
 
-      const body = parseCompound(p, parseIp, { until: '}', semi: true })
+      const body = parseCompound(p, parseAclEntry, {
+        until: '}',
+        semi: true,
+      })
 
       return { type: 'AclStatement', id, body }
     })
@@ -238,6 +566,19 @@ export function parseStmt(p: Parser, token: Token = p.read()): Statement {
     })
   }
 
+  if (token.value === 'probe') {
+    return p.parseNode(token, () => {
+      const id = parseIdentifier(p)
+
+      p.validateToken(p.read(), 'symbol', '{')
+
+      // the same as `.probe = { ... }` of backends
+      const body = parseCompound(p, parseBackendDef, { until: '}' })
+
+      return { type: 'ProbeStatement', id, body }
+    })
+  }
+
   if (token.value === 'table') {
     return parseTableStatement(p, token)
   }
@@ -246,14 +587,107 @@ export function parseStmt(p: Parser, token: Token = p.read()): Statement {
     return parseDirectorStatement(p, token)
   }
 
+  if (token.value === 'penaltybox' || token.value === 'ratecounter') {
+    return p.parseNode(token, () => {
+      const id = parseIdentifier(p)
+
+      // no properties can be configured
+      p.validateToken(p.read(), 'symbol', '{')
+      p.validateToken(p.read(), 'symbol', '}')
+
+      const type =
+        token.value === 'penaltybox'
+          ? 'PenaltyboxStatement'
+          : 'RatecounterStatement'
+
+      return { type, id }
+    })
+  }
+
   throw createError(
     p.source,
     'Statement not implemented yet',
     token.loc.start,
-    token.loc.end
+    token.loc.end,
+    { name: 'UnsupportedStatement' }
   )
 }
 
+const valueTypes: ReadonlyArray<DeclareValueType> = [
+  'STRING',
+  'BOOL',
+  'BOOLEAN',
+  'INTEGER',
+  'FLOAT',
+  'TIME',
+  'RTIME',
+  'IP',
+  'BACKEND',
+]
+
+// `STRING` of `sub get_name STRING { ... }`
+function parseReturnType(p: Parser, token: Token): DeclareValueType {
+  const type = valueTypes.find((type) => type === token.value)
+
+  if (!type) {
+    throw createError(
+      p.source,
+      `Unknown return type '${token.value}'`,
+      token.loc.start,
+      token.loc.end,
+      {
+        name: 'UnexpectedToken',
+        hint: `return types are ${valueTypes.join(', ')}`,
+      }
+    )
+  }
+
+  return type
+}
+
+// Check the operator against the type of the variable if it's a local
+function parseAssignmentOperator(
+  p: Parser,
+  left: Identifier | Member | ValuePair
+): AssignmentOperator {
+  const token = p.validateToken(p.read(), 'operator')
+  const operator = token.value
+
+  if (!isAssignmentOperator(operator)) {
+    throw createError(
+      p.source,
+      `Expected an assignment operator but got '${operator}'`,
+      token.loc.start,
+      token.loc.end,
+      { name: 'InvalidOperator' }
+    )
+  }
+
+  const valueType =
+    left.type !== 'ValuePair' ? p.locals.get(getIdName(left)) : undefined
+  const types = assignableTypes[operator]
+
+  if (valueType && types !== 'any' && !types.includes(valueType)) {
+    const allowed = Object.keys(assignableTypes).filter((op) => {
+      const types = assignableTypes[op as AssignmentOperator]
+      return types === 'any' || types.includes(valueType)
+    })
+
+    throw createError(
+      p.source,
+      `Operator '${operator}' cannot be used for ${valueType}`,
+      token.loc.start,
+      token.loc.end,
+      {
+        name: 'InvalidOperator',
+        hint: `operators for ${valueType} are ${allowed.join(', ')}`,
+      }
+    )
+  }
+
+  return operator
+}
+
 function parseBackendDef(p: Parser, token = p.read()): BackendDefinition {
   return p.parseNode(token, () => {
     p.validateToken(token, 'symbol', '.')
@@ -284,7 +718,11 @@ function parseIfStatement(p: Parser, token: Token = p.read()): IfStatement {
 
     p.validateToken(p.read(), 'symbol', '{')
 
-    const consequent = parseCompound(p, parseStmt, { until: '}' })
+    const consequent = parseCompound(
+      p,
+      (p, token) => parseStmt(p, token, 'if-branch'),
+      { until: '}' }
+    )
 
     let alternative: IfStatement | Array<Statement> | undefined = undefined
 
@@ -299,7 +737,11 @@ function parseIfStatement(p: Parser, token: Token = p.read()): IfStatement {
         alternative = parseIfStatement(p, p.read())
       } else {
         p.validateToken(p.read(), 'symbol', '{')
-        alternative = parseCompound(p, parseStmt, { until: '}' })
+        alternative = parseCompound(
+          p,
+          (p, token) => parseStmt(p, token, 'if-branch'),
+          { until: '}' }
+        )
       }
     }
 
@@ -312,13 +754,79 @@ function parseIfStatement(p: Parser, token: Token = p.read()): IfStatement {
   })
 }
 
-function parseTableDef(p: Parser, token: Token = p.read()): TableDefinition {
+// Whether the value can be in tables of the type
+const tableValueTypes: {
+  [K in TableValueType]: (value: TableDefinition['value']) => boolean
+} = {
+  STRING: (value) =>
+    value.type === 'StringLiteral' || value.type === 'MultilineLiteral',
+  BOOL: (value) => value.type === 'BooleanLiteral',
+  INTEGER: (value) =>
+    value.type === 'NumericLiteral' &&
+    /^-?(0[xX][\da-fA-F]+|\d+)$/.test(value.value),
+  FLOAT: (value) => value.type === 'NumericLiteral',
+  RTIME: (value) => value.type === 'DurationLiteral',
+  IP: (value) => value.type === 'Ip',
+  BACKEND: (value) => value.type === 'Identifier',
+  ACL: (value) => value.type === 'Identifier',
+}
+
+const isTableValueType = (type: string): type is TableValueType =>
+  Object.prototype.hasOwnProperty.call(tableValueTypes, type)
+
+function parseTableValue(
+  p: Parser,
+  token: Token,
+  valueType: TableValueType
+): Located<TableDefinition['value']> {
+  if (token.type === 'ident') return parseIdentifier(p, token)
+
+  // IP addresses are quoted
+  if (valueType === 'IP' && token.type === 'string') return parseIp(p, token)
+
+  const literal = parseLiteral(p, token)
+
+  if (!literal) {
+    throw createError(
+      p.source,
+      `Expected a value of ${valueType}`,
+      token.loc.start,
+      token.loc.end,
+      { name: 'UnexpectedToken' }
+    )
+  }
+
+  return literal
+}
+
+function parseTableDef(
+  p: Parser,
+  token: Token = p.read(),
+  valueType: TableValueType = 'STRING'
+): TableDefinition {
   return p.parseNode(token, () => {
-    const key = p.validateToken(token, 'string').value
+    p.validateToken(token, 'string')
+
+    const key = p.validateNode(
+      parseLiteral(p, token) as Located<Literal>,
+      'StringLiteral'
+    )
 
     p.validateToken(p.read(), 'symbol', ':')
 
-    const value = p.validateToken(p.read(), 'string').value
+    const value = parseTableValue(p, p.read(), valueType)
+
+    if (!tableValueTypes[valueType](value)) {
+      p.raise(
+        createError(
+          p.source,
+          `Expected a value of ${valueType} but got ${value.type}`,
+          value.loc.start,
+          value.loc.end,
+          { name: 'TypeMismatch' }
+        )
+      )
+    }
 
     if (isToken(p.peek(), 'symbol', ',')) {
       p.take()
@@ -335,11 +843,95 @@ function parseTableStatement(
   return p.parseNode(token, () => {
     const id = p.validateNode(parseId(p, p.read()), 'Identifier')
 
+    let valueType: TableValueType | undefined
+
+    if (isToken(p.peek(), 'ident')) {
+      const type = p.read()
+
+      if (!isTableValueType(type.value)) {
+        throw createError(
+          p.source,
+          `Unknown table type '${type.value}'`,
+          type.loc.start,
+          type.loc.end,
+          {
+            name: 'UnexpectedToken',
+            hint: `table types are ${Object.keys(tableValueTypes).join(', ')}`,
+          }
+        )
+      }
+
+      valueType = type.value
+    }
+
     p.validateToken(p.read(), 'symbol', '{')
 
-    const body = parseCompound(p, parseTableDef, { until: '}' })
+    const body = parseCompound(
+      p,
+      (p, token) => parseTableDef(p, token, valueType),
+      { until: '}' }
+    )
 
-    return { type: 'TableStatement', id, body }
+    return valueType
+      ? { type: 'TableStatement', id, valueType, body }
+      : { type: 'TableStatement', id, body }
+  })
+}
+
+function parseDirectorProperty(
+  p: Parser,
+  token: Token = p.read()
+): DirectorProperty {
+  return p.parseNode(token, () => {
+    p.validateToken(token, 'symbol', '.')
+    const key = parseIdentifier(p).name
+    p.validateToken(p.read(), 'operator', '=')
+
+    let value: Expression
+
+    // `.quorum = 50%;`, percentages are only for directors
+    if (isToken(p.peek(), 'numeric', /^\d+%$/)) {
+      const token = p.read()
+
+      value = p.parseNode(token, () => ({
+        type: 'NumericLiteral',
+        value: token.value,
+        number: Number(token.value.slice(0, -1)),
+      }))
+    } else {
+      value = parseExpr(p)
+    }
+
+    ensureSemi(p)
+
+    return { type: 'DirectorProperty', key, value }
+  })
+}
+
+function parseDirectorBackend(
+  p: Parser,
+  token: Token = p.read()
+): DirectorBackend {
+  return p.parseNode(token, () => {
+    const attributes = parseCompound(p, parseDirectorProperty, { until: '}' })
+    const property = attributes.find((attr) => attr.key === 'backend')
+
+    if (!property) {
+      throw createError(
+        p.source,
+        'No backend name specified',
+        token.loc.start,
+        p.getCurrentToken().loc.end,
+        {
+          name: 'MissingBackend',
+          hint: 'each backend of a director needs `.backend = <name>;`',
+        }
+      )
+    }
+
+    p.validateNode(property.value as Located<Expression>, 'Identifier')
+
+    return { type: 'DirectorBackend', attributes }
   })
 }
 
@@ -355,43 +947,12 @@ function parseDirectorStatement(
 
     const body = parseCompound(
       p,
-      (p, token) => {
-        if (token.value === '{') {
-          const attributes = parseCompound(
-            p,
-            (p, token) => {
-              p.validateToken(token, 'symbol', '.')
-              const key = p.read().value
-              p.validateToken(p.read(), 'operator', '=')
-              const value = p.read().value
-              ensureSemi(p)
-
-              return { key, value }
-            },
-            { until: '}' }
-          )
-
-          const backend = attributes.shift()
-          if (backend?.key !== 'backend')
-            // TODO: use general-purpose validate function
-            throw new Error('No backend name specified')
-
-          return {
-            backend: backend.value,
-            attributes,
-          }
-        }
-
-        p.validateToken(token, 'symbol', '.')
-        const key = p.read().value
-        p.validateToken(p.read(), 'operator', '=')
-        const value = p.read().value
-        ensureSemi(p)
-
-        return { key, value }
-      },
+      (p, token) =>
+        isToken(token, 'symbol', '{')
+          ? parseDirectorBackend(p, token)
+          : parseDirectorProperty(p, token),
       { until: '}' }
-    ).filter(Boolean)
+    )
 
     return {
       type: 'DirectorStatement',
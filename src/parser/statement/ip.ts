@@ -17,9 +17,13 @@ export function parseIp(p: Parser, token = p.read()) {
     if (!isLocalhost && !version) {
       throw createError(
         p.source,
-        'Invalid ip address, Expected `"localhost"`, "IP"`, or `"IP"/prefix`',
+        'Invalid ip address',
         token.loc.start,
-        token.loc.end
+        token.loc.end,
+        {
+          name: 'InvalidIp',
+          hint: 'Expected `"localhost"`, `"IP"`, or `"IP"/prefix`',
+        }
       )
     }
 
@@ -49,7 +53,8 @@ export function parseIp(p: Parser, token = p.read()) {
           p.source,
           `Invalid ip address(${message})`,
           token.loc.start,
-          token.loc.end
+          token.loc.end,
+          { name: 'InvalidIp' }
         )
       }
     }
@@ -57,3 +62,14 @@ export function parseIp(p: Parser, token = p.read()) {
     return { type: 'Ip', value, cidr }
   })
 }
+
+// Entries of acls, `!"10.0.0.0"/8` excludes the addresses
+export function parseAclEntry(p: Parser, token = p.read()) {
+  if (!isToken(token, 'operator', '!')) return parseIp(p, token)
+
+  return p.parseNode(token, () => {
+    const { value, cidr } = parseIp(p)
+
+    return { type: 'Ip', value, cidr, negated: true }
+  })
+}
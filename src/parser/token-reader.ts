@@ -1,14 +1,17 @@
 import { Comment } from '../nodes'
 import { Token } from './tokenizer'
+import { createError } from './create-error'
 
 export class TokenReader {
   private tokens: Array<Token>
   private cur: number
+  private source: string
 
   comments: Array<Comment>
 
-  constructor(tokens: Array<Token>) {
+  constructor(tokens: Array<Token>, source: string) {
     this.tokens = tokens
+    this.source = source
     this.comments = []
 
     this.cur = 0
@@ -31,12 +34,19 @@ export class TokenReader {
   }
 
   read(): Token {
-    const token = this.tokens[this.cur++]
+    const token = this.tokens[this.cur]
 
     if (!token) {
-      throw new SyntaxError('Unexpected EOF')
+      const last = this.tokens[this.tokens.length - 1]
+      const pos = last ? last.loc.end : { offset: 0, line: 1, column: 1 }
+
+      throw createError(this.source, 'Unexpected EOF', pos, pos, {
+        name: 'UnexpectedEOF',
+      })
     }
 
+    this.cur++
+
     if (token.type === 'comment') {
       this.comments.push({
         type: 'CommentLine',
@@ -1,4 +1,5 @@
 import { createError } from '../create-error'
+import { VacelineDiagnostic } from '../../diagnostic'
 import { Location } from '../../nodes'
 import { operators } from './operators'
 import { buildDebug } from '../../utils/debug'
@@ -12,9 +13,11 @@ export type TokenType =
   | 'symbol'
   | 'operator'
   | 'comment'
+  | 'macro'
   | 'string'
   | 'numeric'
   | 'boolean'
+  | 'inline-c'
 
 export interface Token {
   type: TokenType
@@ -34,12 +37,17 @@ const splitters = [
   /* tabs           */ /\t+/,
   /* newline        */ '\n',
   /* line comment   */ /#[^\n]*|\/\/[^\n]*/,
-  /* inline comment */ /\/\*[\s\S]*\*\//,
+  /* inline comment */ /\/\*[\s\S]*?\*\//,
   /* string         */ /"[^\n]*?"/,
-  /* multiline str  */ /{"[\s\S]*?"}/,
+  // `\1` refers to the delimiter since this is the only capturing group
+  /* long string    */ /{([A-Za-z_]\w*)?"[\s\S]*?"\1}/,
+  /* inline c       */ /C{[\s\S]*?}C/,
+  // The first alternative that matches is taken, so longer operators go
+  // first (`<<=` over `<`) and all of them before ident (`rol=` and `^=`)
+  ...Array.from(operators).sort((a, b) => b.length - a.length),
   /* ident          */ /[A-z][A-z\d-_]*/,
-  /* numeric        */ /[\d][\d.]+%?/,
-  ...operators,
+  // `.5` but not `.1` of `re.group.1`
+  /* numeric        */ /-?(?:0[xX][\da-fA-F.]+(?:[pP][-+]?\d+)?|(?:\d[\d.]*|(?<![\w.])\.\d+)(?:[eE][-+]?\d+)?)%?/,
   ...symbols,
 ]
 
@@ -48,15 +56,66 @@ const matchers = {
   operators: new Set(operators),
 } as const
 
-const reSplitter = new RegExp('(' + getJoinedRegExp(splitters) + ')')
+const reSplitter = new RegExp(getJoinedRegExp(splitters), 'g')
+
+// operators which can be the end of an ident followed by `=`
+const wordOperators = new Set(['rol=', 'ror='])
+
+// Like `raw.split(/(splitter)/)` but without the captured delimiters of long
+// strings in the result
+function split(raw: string): Array<string> {
+  const source = []
+
+  let last = 0
+  let match: RegExpExecArray | null
+
+  reSplitter.lastIndex = 0
+
+  while ((match = reSplitter.exec(raw))) {
+    const [str] = match
+
+    // `rol=` right after another token is part of a name, e.g. `req.http.rol=`
+    if (wordOperators.has(str) && /\S/.test(raw.charAt(match.index - 1))) {
+      source.push(raw.slice(last, match.index), str.slice(0, -1))
+      // `=` is split again, which can be a part of `==`
+      reSplitter.lastIndex--
+    } else {
+      source.push(raw.slice(last, match.index), str)
+    }
+
+    last = reSplitter.lastIndex
+  }
+
+  source.push(raw.slice(last))
+
+  return source
+}
+
+// `#FASTLY recv`, which is a comment outside of Fastly
+const reMacro = /^#FASTLY +\w+\s*$/
+
+export interface TokenizerOptions {
+  // skip invalid tokens instead of throwing
+  recover: boolean
+  // tell Fastly macros from comments
+  macros: boolean
+}
 
 export class Tokenizer {
   raw: string
   source: ReadonlyArray<string>
-
-  constructor(raw: string /* opts: { keywords?: Array<string> } = {} */) {
+  recover: boolean
+  macros: boolean
+  diagnostics: Array<VacelineDiagnostic> = []
+
+  constructor(
+    raw: string,
+    { recover = false, macros = false }: Partial<TokenizerOptions> = {}
+  ) {
     this.raw = raw
-    this.source = raw.split(reSplitter)
+    this.source = split(raw)
+    this.recover = recover
+    this.macros = macros
 
     if (debugRaw.enabled) {
       debugRaw(this.source.filter((t) => !/^\s*$/.test(t)))
@@ -98,6 +157,7 @@ export class Tokenizer {
       }
 
       let err: string | undefined = undefined
+      let hint: string | undefined = undefined
 
       /** determine token start */
 
@@ -119,18 +179,17 @@ export class Tokenizer {
         type = 'string'
 
         if (!str.endsWith('"') || str === '"') {
-          err =
-            'Invalid token (string may have newlines inside normal quotes, use `{" "}`)'
+          err = 'Invalid token'
+          hint = 'string may have newlines inside normal quotes, use `{" "}`'
         }
-      } else if (str.startsWith('{"')) {
+      } else if (/^{\w*"/.test(str)) {
         type = 'string'
-
-        // string can have newline inside
-        const lines = str.split('\n')
-        line += lines.length - 1
-        column = lines[lines.length - 1].length - (str.length - 1)
-      } else if (/^[\d.]+%?$/.test(str)) {
+      } else if (str.startsWith('C{') && str.endsWith('}C')) {
+        type = 'inline-c'
+      } else if (/^-?\.?\d/.test(str)) {
         type = 'numeric'
+      } else if (this.macros && reMacro.test(str)) {
+        type = 'macro'
       } else if (/^(#|\/\/|\/\*)/.test(str)) {
         type = 'comment'
       } else {
@@ -144,7 +203,16 @@ export class Tokenizer {
       /** update position */
 
       offset += str.length
-      column += str.length
+
+      // long strings, inline C and inline comments can have newlines inside
+      const lines = str.split('\n')
+
+      if (lines.length > 1) {
+        line += lines.length - 1
+        column = lines[lines.length - 1].length + 1
+      } else {
+        column += str.length
+      }
 
       /** determine token end */
 
@@ -153,7 +221,7 @@ export class Tokenizer {
       const endColumn = column - 1
 
       if (err) {
-        throw createError(
+        const error = createError(
           this.raw,
           err,
           {
@@ -164,9 +232,16 @@ export class Tokenizer {
           {
             offset: endOffset,
             line: endLine,
-            column,
-          }
+            column: endColumn,
+          },
+          { name: 'InvalidToken', hint }
         )
+
+        if (!this.recover) throw error
+
+        this.diagnostics.push(error.diagnostic)
+
+        continue
       }
 
       const token = {
@@ -1,10 +1,55 @@
+import { AssignmentOperator, DeclareValueType } from '../../nodes'
+
 export const binary = new Set(['==', '!=', '>=', '>', '<=', '<', '~', '!~'])
 export const unary = new Set(['!'])
 export const logical = new Set(['||', '&&'])
-export const assign = new Set(['=', '*=', '+=', '-=', '/=', '||=', '&&='])
+export const assign = new Set<string>([
+  '=',
+  '*=',
+  '+=',
+  '-=',
+  '/=',
+  '%=',
+  '|=',
+  '&=',
+  '^=',
+  '<<=',
+  '>>=',
+  'rol=',
+  'ror=',
+  '||=',
+  '&&=',
+])
 
 export const operators = new Set([...binary, ...unary, ...logical, ...assign])
 
+const numeric: Array<DeclareValueType> = ['INTEGER', 'FLOAT']
+
+// The types of variables each assignment operator can be used for
+export const assignableTypes: {
+  [K in AssignmentOperator]: ReadonlyArray<DeclareValueType> | 'any'
+} = {
+  '=': 'any',
+  '+=': [...numeric, 'TIME', 'RTIME'],
+  '-=': [...numeric, 'TIME', 'RTIME'],
+  '*=': [...numeric, 'RTIME'],
+  '/=': [...numeric, 'RTIME'],
+  '%=': numeric,
+  '|=': ['INTEGER'],
+  '&=': ['INTEGER'],
+  '^=': ['INTEGER'],
+  '<<=': ['INTEGER'],
+  '>>=': ['INTEGER'],
+  'rol=': ['INTEGER'],
+  'ror=': ['INTEGER'],
+  '||=': ['BOOL', 'BOOLEAN'],
+  '&&=': ['BOOL', 'BOOLEAN'],
+}
+
+export function isAssignmentOperator(op: string): op is AssignmentOperator {
+  return assign.has(op)
+}
+
 export function getPrecedence(op: string) {
   if (binary.has(op)) return 1
   if (op === '&&') return 2
@@ -1,5 +1,6 @@
 import { traverse } from '../../lib'
 import { Node } from '../../nodes'
+import { buildStringLiteral } from '../../utils/node'
 
 // req.http.Vaceline-Branch-Log
 const varBranchLog: Node = {
@@ -17,42 +18,43 @@ const getLoc = (node: Node) =>
 
 export default (ast: Node) => {
   traverse(ast, {
-    entry({ node }) {
-      if (node.type === 'SubroutineStatement') {
+    SubroutineStatement: {
+      enter(path) {
+        const { node } = path
+
         if (node.id.name === 'vcl_recv') {
-          node.body.unshift(
+          path.unshiftContainer(
+            'body',
             /**
              * set req.http.Vaceline-Branch-Log = "(vcl_recv)${line}:${col}";
              */
             {
               type: 'SetStatement',
               left: varBranchLog,
-              right: {
-                type: 'StringLiteral',
-                value: `"(${node.id.name})${getLoc(node)}"`,
-              },
+              right: buildStringLiteral(`(${node.id.name})${getLoc(node)}`),
               operator: '=',
             }
           )
         } else {
-          node.body.unshift(
+          path.unshiftContainer(
+            'body',
             /**
              * add req.http.Vaceline-Branch-Log = "(${nodeName})${line}:${col}";
              */
             {
               type: 'AddStatement',
               left: varBranchLog,
-              right: {
-                type: 'StringLiteral',
-                value: `"(${node.id.name})${getLoc(node)}"`,
-              },
+              right: buildStringLiteral(`(${node.id.name})${getLoc(node)}`),
               operator: '=',
             }
           )
         }
+      },
+      exit(path) {
+        const { node } = path
 
         if (node.id.name === 'vcl_deliver') {
-          node.body.push(
+          path.pushContainer('body', [
             /**
              * set resp.http.Vaceline-Branch-Log = std.collect(
              *   req.http.Vaceline-Branch-Log
@@ -94,27 +96,30 @@ export default (ast: Node) => {
                 member: { type: 'Identifier', name: 'Vaceline-Branch-Log' },
               },
               operator: '=',
-            }
-          )
-        }
-      } else if (node.type === 'IfStatement') {
-        node.consequent.unshift(
-          /**
-           * add req.http.Vaceline-Branch-Log = "${line}:${col}";
-           */
-          {
-            type: 'AddStatement',
-            left: varBranchLog,
-            right: {
-              type: 'StringLiteral',
-              value: node.loc
-                ? `"(anonymous)${node.loc.start.line}:${node.loc.start.column}"`
-                : '"synthethic"',
             },
-            operator: '=',
-          }
-        )
-      }
+          ])
+        }
+      },
+    },
+    IfStatement(path) {
+      const { node } = path
+
+      path.unshiftContainer(
+        'consequent',
+        /**
+         * add req.http.Vaceline-Branch-Log = "${line}:${col}";
+         */
+        {
+          type: 'AddStatement',
+          left: varBranchLog,
+          right: buildStringLiteral(
+            node.loc
+              ? `(anonymous)${node.loc.start.line}:${node.loc.start.column}`
+              : 'synthethic'
+          ),
+          operator: '=',
+        }
+      )
     },
   })
 }
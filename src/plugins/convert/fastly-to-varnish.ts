@@ -0,0 +1,754 @@
+import { traverse } from '../../traverser'
+import { NodePath } from '../../traverser/path'
+import {
+  BackendDefinition,
+  Expression,
+  IfStatement,
+  Node,
+  Program,
+  Statement,
+  SubroutineStatement,
+  TableStatement,
+} from '../../nodes'
+import { dialects } from '../../parser/keywords'
+import { buildId, getIdName } from '../../utils/node'
+import { ConversionContext } from '.'
+import { matches, Rename, renameVariable, replaceStatement } from './utils'
+
+// Subroutines of Fastly and the ones of Varnish which run at the same point
+const subroutines = new Map([
+  ['vcl_error', 'vcl_synth'],
+  ['vcl_fetch', 'vcl_backend_response'],
+])
+
+// Variables with different names in Varnish, together with the ones under them
+const variables: Array<Rename> = [
+  { from: 'beresp.response', to: 'beresp.reason' },
+  { from: 'bereq.request', to: 'bereq.method' },
+  { from: 'req.backend', to: 'req.backend_hint' },
+  { from: 'req.request', to: 'req.method' },
+  { from: 'resp.response', to: 'resp.reason' },
+  { from: 'server.ip', to: 'local.ip' },
+]
+
+// `req` of vcl_fetch is `bereq` of vcl_backend_response and `obj` of
+// vcl_error is `resp` of vcl_synth
+const subroutineVariables = new Map<string, Array<Rename>>([
+  [
+    'vcl_fetch',
+    [
+      { from: 'req.request', to: 'bereq.method' },
+      { from: 'req.restarts', to: 'bereq.retries' },
+      { from: 'req', to: 'bereq' },
+    ],
+  ],
+  [
+    'vcl_error',
+    [
+      { from: 'obj.response', to: 'resp.reason' },
+      { from: 'obj', to: 'resp' },
+    ],
+  ],
+])
+
+const unsupportedVariables = [
+  'client.as',
+  'client.geo',
+  'fastly',
+  'req.digest',
+  'req.service_id',
+  'server.datacenter',
+  'server.region',
+  'tls',
+]
+
+// Return actions named differently in Varnish, in the subroutine if any
+const returnActions = [
+  { subroutine: 'vcl_recv', from: 'lookup', to: 'hash' },
+  { subroutine: 'vcl_hash', from: 'hash', to: 'lookup' },
+  { subroutine: 'vcl_pass', from: 'pass', to: 'fetch' },
+  { subroutine: undefined, from: 'upgrade', to: 'pipe' },
+] as const
+
+// the std function of Varnish and the fallback value it requires
+const stdFunctions = new Map<string, { name: string; fallback?: Expression }>([
+  [
+    'std.atoi',
+    {
+      name: 'std.integer',
+      fallback: { type: 'NumericLiteral', value: '0', number: 0 },
+    },
+  ],
+  [
+    'std.atof',
+    {
+      name: 'std.real',
+      fallback: { type: 'NumericLiteral', value: '0.0', number: 0 },
+    },
+  ],
+  ['std.collect', { name: 'std.collect' }],
+  ['std.log', { name: 'std.log' }],
+  ['std.str2ip', { name: 'std.ip' }],
+  ['std.strstr', { name: 'std.strstr' }],
+  ['std.time', { name: 'std.time' }],
+  ['std.tolower', { name: 'std.tolower' }],
+  ['std.toupper', { name: 'std.toupper' }],
+  ['querystring.sort', { name: 'std.querysort' }],
+])
+
+// Fastly functions without a namespace, which Varnish doesn't have
+const unsupportedFunctions = [
+  'http_status_matches',
+  'if',
+  'randombool',
+  'randomint',
+  'randomstr',
+  'subfield',
+  'urldecode',
+  'urlencode',
+]
+
+// Backend properties which Varnish knows, the others are dropped
+const backendProperties = new Set([
+  'between_bytes_timeout',
+  'connect_timeout',
+  'first_byte_timeout',
+  'host',
+  'host_header',
+  'max_connections',
+  'port',
+  'probe',
+  'proxy_header',
+])
+const probeProperties = new Set([
+  'expected_response',
+  'initial',
+  'interval',
+  'request',
+  'threshold',
+  'timeout',
+  'url',
+  'window',
+])
+
+// where the headers emulating locals and tables are put in the subroutine
+const getBase = (subroutine?: string) =>
+  subroutine === 'vcl_fetch' ? 'bereq' : 'req'
+
+const buildHeader = (base: string, name: string) =>
+  buildId(`${base}.http.${name}`)
+
+// The closest statement in a list, before which statements can be inserted
+function getListedStatement(
+  path: NodePath<Node>
+): NodePath<Statement> | undefined {
+  for (let p: NodePath<Node> | null = path; p; p = p.parentPath) {
+    if (p.inList && p.node.type.endsWith('Statement')) {
+      return p as NodePath<Statement>
+    }
+  }
+
+  return undefined
+}
+
+/**
+ * Lower Fastly VCL into Varnish 6 VCL to run it on open-source Varnish.
+ * Subroutines and variables are renamed, `error` is rewritten into
+ * `return (synth(...))`, STRING locals are emulated with headers and
+ * `table.lookup()` with a subroutine for each table.
+ */
+export function fastlyToVarnish(
+  ast: Program,
+  context: ConversionContext
+): void {
+  // STRING tables which can be emulated
+  const tables = new Map<string, TableStatement>()
+  // the subroutines emulating each table by the name of the table, created
+  // on the first lookup from `req` or `bereq`
+  const tableSubroutines = new Map<string, Array<SubroutineStatement>>()
+  // the number of the lookups of each table so far
+  const lookups = new Map<string, number>()
+  // the name in Fastly, the subroutine is renamed after its body
+  let subroutine: string | undefined
+  // STRING locals of the subroutine
+  let locals = new Set<string>()
+  let usesStd = false
+
+  const unsupported = (path: NodePath<Node>, construct: string) =>
+    context.todo(path, `${construct} has no equivalent in Varnish`)
+
+  const getTableSubroutine = (table: TableStatement, base: string) => {
+    const name = `vaceline_table_${table.id.name}${
+      base === 'req' ? '' : '_' + base
+    }`
+    const subs = tableSubroutines.get(table.id.name) ?? []
+    const sub = subs.find((sub) => sub.id.name === name)
+
+    if (sub) return sub
+
+    const created = buildTableSubroutine(table, name, base)
+
+    tableSubroutines.set(table.id.name, subs.concat(created))
+
+    return created
+  }
+
+  for (const stmt of ast.body) {
+    if (
+      stmt.type === 'TableStatement' &&
+      (!stmt.valueType || stmt.valueType === 'STRING')
+    ) {
+      tables.set(stmt.id.name, stmt)
+    }
+  }
+
+  traverse(ast, {
+    // Fastly puts its boilerplate there, or what it has been expanded into
+    FastlyMacroStatement(path) {
+      const { subroutine, body } = path.node
+
+      context.report('remove', `#FASTLY ${subroutine}`, path.node)
+
+      if (body?.length) {
+        path.replaceWithMultiple(body)
+      } else {
+        path.remove()
+      }
+    },
+
+    SubroutineStatement: {
+      enter(path) {
+        subroutine = path.node.id.name
+        locals = new Set()
+
+        if (subroutine === 'vcl_log') unsupported(path, subroutine)
+        if (path.node.returnType) {
+          unsupported(
+            path,
+            `${path.node.returnType} returned from a subroutine`
+          )
+        }
+      },
+      exit(path) {
+        const { id } = path.node
+        const name = subroutines.get(id.name)
+
+        if (name) {
+          context.report('rename', `${id.name} to ${name}`, id)
+          id.name = name
+        }
+
+        subroutine = undefined
+      },
+    },
+
+    BackendStatement(path) {
+      const filter = (
+        definitions: Array<BackendDefinition>,
+        properties: Set<string>
+      ) =>
+        definitions.filter((definition) => {
+          if (!properties.has(definition.key)) {
+            context.report('remove', `.${definition.key}`, definition)
+
+            return false
+          }
+
+          if (Array.isArray(definition.value)) {
+            definition.value = filter(definition.value, probeProperties)
+          }
+
+          return true
+        })
+
+      path.node.body = filter(path.node.body, backendProperties)
+    },
+
+    TableStatement(path) {
+      if (!tables.has(path.node.id.name)) {
+        unsupported(path, `table of ${path.node.valueType}`)
+      }
+
+      path.skip()
+    },
+
+    PragmaStatement(path) {
+      context.report('remove', `pragma ${path.node.name.name}`, path.node)
+      path.remove()
+    },
+
+    'AddStatement|DirectorStatement|GotoStatement|LabelStatement|PenaltyboxStatement|RatecounterStatement|SyntheticBase64Statement'(
+      path
+    ) {
+      const keyword = path.node.type
+        .replace(/Statement$/, '')
+        .replace(/Base64$/, '.base64')
+        .toLowerCase()
+
+      unsupported(path, keyword)
+      path.skip()
+    },
+
+    DeclareStatement(path) {
+      const { id, valueType } = path.node
+      const name = getIdName(id)
+
+      if (valueType !== 'STRING') {
+        unsupported(path, `local of ${valueType}`)
+
+        return
+      }
+
+      locals.add(name)
+      // the header of a previous request is not carried over
+      replaceStatement(path, {
+        type: 'UnsetStatement',
+        id: buildHeader(
+          getBase(subroutine),
+          `Vaceline-Local-${id.type === 'Member' ? id.member.name : name}`
+        ),
+      })
+      context.report('rewrite', `${name} into a header`, id)
+    },
+
+    SetStatement(path) {
+      const { left, right, operator } = path.node
+
+      if (left.type === 'ValuePair') return
+
+      const name = getIdName(left)
+
+      if (name === 'req.hash' && operator === '+=') {
+        replaceStatement(path, {
+          type: 'ExpressionStatement',
+          body: {
+            type: 'FunCallExpression',
+            callee: buildId('hash_data'),
+            args: [right],
+          },
+        })
+        context.report('rewrite', 'req.hash into hash_data()', left)
+
+        return
+      }
+
+      if (name !== 'beresp.cacheable') return
+
+      if (right.type !== 'BooleanLiteral') {
+        unsupported(path, `${name} set to an expression`)
+
+        return
+      }
+
+      path.node.left = buildId('beresp.uncacheable')
+      path.node.right = {
+        type: 'BooleanLiteral',
+        value: right.value === 'true' ? 'false' : 'true',
+      }
+      context.report('rewrite', `${name} into beresp.uncacheable`, left)
+    },
+
+    ErrorStatement(path) {
+      const { status, message } = path.node
+      // no synthetic responses can be made on the backend side
+      const action = subroutine === 'vcl_fetch' ? 'error' : 'synth'
+      const args: Array<Expression> = [
+        { type: 'NumericLiteral', value: String(status), number: status },
+      ]
+
+      if (message) args.push(message)
+
+      replaceStatement(path, { type: 'ReturnStatement', action, args })
+      context.report('rewrite', `error into return (${action})`, path.node)
+
+      if (action === 'error') {
+        context.todo(path, 'vcl_backend_error runs for it instead of vcl_synth')
+      }
+    },
+
+    RestartStatement(path) {
+      // the backend side can only retry the fetch
+      const action = subroutine === 'vcl_fetch' ? 'retry' : 'restart'
+
+      replaceStatement(path, { type: 'ReturnStatement', action })
+      context.report('rewrite', `restart into return (${action})`, path.node)
+    },
+
+    EsiStatement(path) {
+      replaceStatement(path, {
+        type: 'SetStatement',
+        left: buildId('beresp.do_esi'),
+        operator: '=',
+        right: { type: 'BooleanLiteral', value: 'true' },
+      })
+      context.report('rewrite', 'esi into beresp.do_esi', path.node)
+    },
+
+    LogStatement(path) {
+      usesStd = true
+      replaceStatement(path, {
+        type: 'ExpressionStatement',
+        body: {
+          type: 'FunCallExpression',
+          callee: buildId('std.log'),
+          args: [path.node.content],
+        },
+      })
+      context.report('rewrite', 'log into std.log()', path.node)
+    },
+
+    // only the function is left in Varnish
+    SyntheticStatement(path) {
+      replaceStatement(path, {
+        type: 'ExpressionStatement',
+        body: {
+          type: 'FunCallExpression',
+          callee: buildId('synthetic'),
+          args: [path.node.response],
+        },
+      })
+      context.report('rewrite', 'synthetic into synthetic()', path.node)
+    },
+
+    ReturnStatement(path) {
+      const { action } = path.node
+
+      if (!action) {
+        if (path.node.argument) unsupported(path, 'return with a value')
+
+        return
+      }
+
+      if (action === 'pass' && subroutine === 'vcl_fetch') {
+        const { loc, leadingComments, trailingComments } = path.node
+
+        path.replaceWithMultiple([
+          {
+            type: 'SetStatement',
+            left: buildId('beresp.uncacheable'),
+            operator: '=',
+            right: { type: 'BooleanLiteral', value: 'true' },
+            loc,
+            leadingComments,
+          },
+          { type: 'ReturnStatement', action: 'deliver', trailingComments },
+        ])
+        context.report(
+          'rewrite',
+          'return (pass) into beresp.uncacheable',
+          path.node
+        )
+
+        return
+      }
+
+      if (action === 'restart' && subroutine === 'vcl_fetch') {
+        path.node.action = 'retry'
+        context.report(
+          'rewrite',
+          'return (restart) into return (retry)',
+          path.node
+        )
+
+        return
+      }
+
+      const rename = returnActions.find(
+        (rename) =>
+          rename.from === action &&
+          (!rename.subroutine || rename.subroutine === subroutine)
+      )
+
+      if (rename) {
+        path.node.action = rename.to
+        context.report(
+          'rewrite',
+          `return (${action}) into return (${rename.to})`,
+          path.node
+        )
+      } else if (!dialects.varnish6.returnActions.has(action)) {
+        unsupported(path, `return (${action})`)
+      }
+    },
+
+    FunCallExpression(path) {
+      const { callee, args } = path.node
+
+      if (callee.type === 'ValuePair') return
+
+      const name = getIdName(callee)
+
+      if (name === 'table.lookup' || name === 'table.contains') {
+        const [table, key, fallback] = args
+        const stmtPath = getListedStatement(path)
+        const found =
+          table && table.type === 'Identifier' && tables.get(table.name)
+
+        if (!found || !key || !stmtPath) {
+          unsupported(path, `${name}() of the table`)
+
+          return
+        }
+
+        const base = getBase(subroutine)
+        const sub = getTableSubroutine(found, base)
+        const result = `${base}.http.Vaceline-Table-${found.id.name}`
+        // copied for the call site, as the result is overwritten by the next
+        // lookup of the table which can be in the same statement
+        const count = (lookups.get(found.id.name) ?? 0) + 1
+        const value = `${result}-${count}`
+
+        lookups.set(found.id.name, count)
+        const statements: Array<Statement> = [
+          {
+            type: 'SetStatement',
+            left: buildHeader(base, 'Vaceline-Table-Key'),
+            operator: '=',
+            right: key,
+          },
+          {
+            type: 'CallStatement',
+            subroutine: { type: 'Identifier', name: sub.id.name },
+          },
+        ]
+
+        if (fallback && name === 'table.lookup') {
+          statements.push({
+            type: 'IfStatement',
+            test: {
+              type: 'UnaryExpression',
+              operator: '!',
+              argument: buildId(result),
+            },
+            consequent: [
+              {
+                type: 'SetStatement',
+                left: buildId(result),
+                operator: '=',
+                right: fallback,
+              },
+            ],
+          })
+        }
+
+        statements.push({
+          type: 'SetStatement',
+          left: buildId(value),
+          operator: '=',
+          right: buildId(result),
+        })
+
+        stmtPath.insertBefore(statements)
+        path.replaceWith({ ...buildId(value), loc: path.node.loc })
+        context.report('rewrite', `${name}() into call ${sub.id.name}`, callee)
+
+        return
+      }
+
+      const fn = stdFunctions.get(name)
+
+      if (!fn) {
+        if (name.includes('.') || unsupportedFunctions.includes(name)) {
+          unsupported(path, `${name}()`)
+        }
+
+        return
+      }
+
+      usesStd = true
+
+      if (fn.name !== name) {
+        path.node.callee = buildId(fn.name)
+        context.report('rename', `${name}() to ${fn.name}()`, callee)
+      }
+
+      if (fn.fallback && args.length === 1) {
+        path.node.args = [...args, fn.fallback]
+      }
+    },
+
+    ConcatExpression(path) {
+      // the lines of `.request` of probes are joined without `+` in Varnish too
+      if (path.parent?.type === 'BackendDefinition') return
+
+      // `a + b + c` is printed without parens when nested on the right
+      path.replaceWith(
+        path.node.body.reduceRight((right, left) => ({
+          type: 'BinaryExpression',
+          left,
+          operator: '+',
+          right,
+        }))
+      )
+    },
+
+    Member(path) {
+      // the members inside are part of the name
+      path.skip()
+
+      const name = getIdName(path.node)
+      const base = getBase(subroutine)
+
+      if (locals.has(name)) {
+        const header = buildHeader(
+          base,
+          `Vaceline-Local-${path.node.member.name}`
+        )
+
+        if (header.type === 'Member') {
+          path.node.base = header.base
+          path.node.member = header.member
+        }
+
+        return
+      }
+
+      if (unsupportedVariables.some((variable) => matches(name, variable))) {
+        unsupported(path, name)
+
+        return
+      }
+
+      // the backend request is only made after vcl_miss and vcl_pass in Varnish
+      if (
+        (subroutine === 'vcl_miss' || subroutine === 'vcl_pass') &&
+        matches(name, 'bereq')
+      ) {
+        context.todo(
+          path,
+          `${name} is not available in ${subroutine} of Varnish, move it into vcl_backend_fetch`
+        )
+
+        return
+      }
+
+      const backend = /^backend\.(.+)\.healthy$/.exec(name)
+
+      if (backend || name === 'req.backend.healthy') {
+        usesStd = true
+        path.replaceWith({
+          type: 'FunCallExpression',
+          callee: buildId('std.healthy'),
+          args: [
+            backend
+              ? buildId(backend[1])
+              : buildId(base === 'req' ? 'req.backend_hint' : 'bereq.backend'),
+          ],
+          loc: path.node.loc,
+        })
+        context.report('rewrite', `${name} into std.healthy()`, path.node)
+
+        return
+      }
+
+      const renamed = renameVariable(
+        name,
+        ((subroutine && subroutineVariables.get(subroutine)) || []).concat(
+          variables
+        )
+      )
+      const id = buildId(renamed)
+
+      if (renamed === name || id.type !== 'Member') return
+
+      path.node.base = id.base
+      path.node.member = id.member
+      context.report('rename', `${name} to ${renamed}`, path.node)
+    },
+  })
+
+  // the tables are replaced with the subroutines emulating them
+  ast.body = ast.body.reduce<Array<Statement>>((body, stmt) => {
+    if (stmt.type !== 'TableStatement' || !tables.has(stmt.id.name)) {
+      return body.concat(stmt)
+    }
+
+    const subs = tableSubroutines.get(stmt.id.name)
+
+    if (!subs) {
+      context.report('remove', `unused table ${stmt.id.name}`, stmt)
+
+      return body
+    }
+
+    for (const sub of subs) {
+      context.report(
+        'add',
+        `sub ${sub.id.name} for table ${stmt.id.name}`,
+        stmt
+      )
+    }
+
+    // in place of the table
+    subs[0].loc = stmt.loc
+    subs[0].leadingComments = stmt.leadingComments
+
+    return body.concat(subs)
+  }, [])
+
+  const header: Array<Statement> = [
+    { type: 'VersionStatement', version: '4.1' },
+  ]
+
+  const importsStd = ast.body.some(
+    (stmt) => stmt.type === 'ImportStatement' && stmt.module.name === 'std'
+  )
+
+  if (usesStd && !importsStd) {
+    header.push({
+      type: 'ImportStatement',
+      module: { type: 'Identifier', name: 'std' },
+    })
+  }
+
+  for (const stmt of header) {
+    context.report(
+      'add',
+      stmt.type === 'VersionStatement' ? `vcl ${stmt.version};` : 'import std;',
+      stmt
+    )
+  }
+
+  ast.body.unshift(...header)
+}
+
+// `sub vaceline_table_redirects` sets the value of the key to a header
+function buildTableSubroutine(
+  table: TableStatement,
+  name: string,
+  base: string
+): SubroutineStatement {
+  const value = `${base}.http.Vaceline-Table-${table.id.name}`
+  let chain: IfStatement | undefined
+
+  for (const definition of table.body.slice().reverse()) {
+    chain = {
+      type: 'IfStatement',
+      test: {
+        type: 'BinaryExpression',
+        left: buildHeader(base, 'Vaceline-Table-Key'),
+        operator: '==',
+        right: definition.key,
+      },
+      consequent: [
+        {
+          type: 'SetStatement',
+          left: buildId(value),
+          operator: '=',
+          right: definition.value,
+        },
+      ],
+      alternative: chain,
+    }
+  }
+
+  const body: Array<Statement> = [
+    { type: 'UnsetStatement', id: buildId(value) },
+  ]
+
+  return {
+    type: 'SubroutineStatement',
+    id: { type: 'Identifier', name },
+    body: chain ? body.concat(chain) : body,
+  }
+}
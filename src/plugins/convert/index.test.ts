@@ -0,0 +1,618 @@
+import { parse, generate } from '../../lib'
+import { transform } from '../..'
+import { Dialect } from '../../parser/keywords'
+import ConvertPlugin, { formatChange } from '.'
+
+const convert = (code: string, from: Dialect = 'varnish6') => {
+  const ast = parse(code, { dialect: from })
+  const changes = ConvertPlugin(ast, {
+    from,
+    to: from === 'fastly' ? 'varnish6' : 'fastly',
+  })
+
+  return { code: generate(ast).code, changes: changes.map(formatChange) }
+}
+
+describe('ConvertPlugin', () => {
+  describe('varnish6 to fastly', () => {
+    it('should rename subroutines and variables', () => {
+      const { code, changes } = convert(`
+vcl 4.1;
+
+sub vcl_backend_response {
+  set beresp.http.X-Reason = beresp.reason;
+  set beresp.uncacheable = true;
+}
+
+sub vcl_synth {
+  set resp.http.Content-Type = "text/plain";
+  synthetic(resp.reason);
+}
+`)
+
+      expect(code).toBe(
+        [
+          'sub vcl_fetch {',
+          '  set beresp.http.X-Reason = beresp.response;',
+          '  set beresp.cacheable = false;',
+          '}',
+          '',
+          'sub vcl_error {',
+          '  set obj.http.Content-Type = "text/plain";',
+          '  synthetic (obj.response);',
+          '}',
+        ].join('\n')
+      )
+      expect(changes).toStrictEqual([
+        '2:1 remove vcl 4.1;',
+        '4:5 rename vcl_backend_response to vcl_fetch',
+        '5:30 rename beresp.reason to beresp.response',
+        '6:7 rewrite beresp.uncacheable into beresp.cacheable',
+        '9:5 rename vcl_synth to vcl_error',
+        '10:7 rename resp.http.Content-Type to obj.http.Content-Type',
+        '11:13 rename resp.reason to obj.response',
+      ])
+    })
+
+    it('should rewrite return actions', () => {
+      const { code, changes } = convert(`
+sub vcl_recv {
+  if (req.http.Authorization) {
+    return (synth(401, "Unauthorized"));
+  }
+
+  return (hash);
+}
+
+sub vcl_backend_response {
+  if (beresp.status >= 500) {
+    return (retry);
+  }
+
+  return (error(503));
+}
+`)
+
+      expect(code).toBe(
+        [
+          'sub vcl_recv {',
+          '  if (req.http.Authorization) {',
+          '    error 401 "Unauthorized";',
+          '  }',
+          '',
+          '  return (lookup);',
+          '}',
+          '',
+          'sub vcl_fetch {',
+          '  if (beresp.status >= 500) {',
+          '    restart;',
+          '  }',
+          '',
+          '  error 503;',
+          '}',
+        ].join('\n')
+      )
+      expect(changes).toStrictEqual([
+        '4:5 rewrite return (synth) into error',
+        '7:3 rewrite return (hash) into return (lookup)',
+        '10:5 rename vcl_backend_response to vcl_fetch',
+        '12:5 rewrite return (retry) into restart',
+        '15:3 rewrite return (error) into error',
+      ])
+    })
+
+    it('should round-trip return actions of vcl_hash and vcl_pass', () => {
+      const source = [
+        'sub vcl_hash {',
+        '  hash_data(req.url);',
+        '  return (lookup);',
+        '}',
+        '',
+        'sub vcl_pass {',
+        '  return (fetch);',
+        '}',
+      ].join('\n')
+      const { code, changes } = convert(source)
+
+      expect(code).toBe(
+        [
+          'sub vcl_hash {',
+          '  set req.hash += req.url;',
+          '  return (hash);',
+          '}',
+          '',
+          'sub vcl_pass {',
+          '  return (pass);',
+          '}',
+        ].join('\n')
+      )
+      expect(changes).toStrictEqual([
+        '2:3 rewrite hash_data() into req.hash',
+        '3:3 rewrite return (lookup) into return (hash)',
+        '7:3 rewrite return (fetch) into return (pass)',
+      ])
+
+      expect(convert(code, 'fastly').code).toMatch(source)
+    })
+
+    it('should translate std functions', () => {
+      const { code, changes } = convert(`
+import std;
+
+sub vcl_recv {
+  set req.url = std.querysort(req.url);
+  set req.http.X-Count = std.integer(req.http.X-Count, 0);
+  if (!std.healthy(req.backend_hint)) {
+    std.log("unhealthy");
+  }
+}
+
+sub vcl_hash {
+  hash_data(req.url);
+}
+`)
+
+      expect(code).toBe(
+        [
+          'sub vcl_recv {',
+          '  set req.url = querystring.sort(req.url);',
+          '  set req.http.X-Count = std.atoi(req.http.X-Count);',
+          '  if (!req.backend.healthy) {',
+          '    log "unhealthy";',
+          '  }',
+          '}',
+          '',
+          'sub vcl_hash {',
+          '  set req.hash += req.url;',
+          '}',
+        ].join('\n')
+      )
+      expect(changes).toStrictEqual([
+        '2:1 remove import std;',
+        '5:17 rename std.querysort() to querystring.sort()',
+        '6:26 rename std.integer() to std.atoi()',
+        '6:56 remove the fallback of std.integer()',
+        '7:8 rewrite std.healthy() into req.backend.healthy',
+        '8:5 rewrite std.log() into log',
+        '13:3 rewrite hash_data() into req.hash',
+      ])
+    })
+
+    it('should inline named probes into backends', () => {
+      const { code, changes } = convert(`
+vcl 4.1;
+
+probe hc {
+  .url = "/health";
+  .interval = 5s;
+}
+
+backend F_a {
+  .host = "a.example.com";
+  .probe = hc;
+}
+
+backend F_b {
+  .host = "b.example.com";
+  .probe = missing;
+}
+`)
+
+      expect(code).toBe(
+        [
+          'backend F_a {',
+          '  .host = "a.example.com";',
+          '  .probe = {',
+          '    .url = "/health";',
+          '    .interval = 5s;',
+          '  }',
+          '}',
+          '',
+          '# TODO: write missing inline as .probe = { ... }',
+          'backend F_b {',
+          '  .host = "b.example.com";',
+          '  .probe = missing;',
+          '}',
+        ].join('\n')
+      )
+      expect(changes).toStrictEqual([
+        '2:1 remove vcl 4.1;',
+        '4:1 remove probe hc',
+        '11:3 rewrite .probe = hc into the attributes of the probe',
+        '14:1 todo write missing inline as .probe = { ... }',
+      ])
+    })
+
+    it('should leave TODO comments on what cannot be translated', () => {
+      const { code, changes } = convert(`
+import directors;
+
+sub vcl_init {
+  new cluster = directors.round_robin();
+}
+
+sub vcl_recv {
+  set req.backend_hint = cluster.backend();
+  std.rollback(req);
+  return (purge);
+}
+`)
+
+      expect(code).toBe(
+        [
+          '# TODO: VMOD directors has no equivalent in Fastly',
+          'import directors;',
+          '',
+          '# TODO: vcl_init has no equivalent in Fastly',
+          'sub vcl_init {',
+          '  # TODO: new cluster has no equivalent in Fastly',
+          '  new cluster = directors.round_robin();',
+          '}',
+          '',
+          'sub vcl_recv {',
+          '  # TODO: cluster.backend() has no equivalent in Fastly',
+          '  set req.backend = cluster.backend();',
+          '  # TODO: std.rollback() has no equivalent in Fastly',
+          '  std.rollback(req);',
+          '  # TODO: return (purge) has no equivalent in Fastly',
+          '  return (purge);',
+          '}',
+        ].join('\n')
+      )
+      expect(changes).toStrictEqual([
+        '2:1 todo VMOD directors has no equivalent in Fastly',
+        '4:1 todo vcl_init has no equivalent in Fastly',
+        '5:3 todo new cluster has no equivalent in Fastly',
+        '9:7 rename req.backend_hint to req.backend',
+        '9:26 todo cluster.backend() has no equivalent in Fastly',
+        '10:3 todo std.rollback() has no equivalent in Fastly',
+        '11:3 todo return (purge) has no equivalent in Fastly',
+      ])
+    })
+  })
+
+  describe('fastly to varnish6', () => {
+    it('should rename subroutines and variables', () => {
+      const { code, changes } = convert(
+        `
+sub vcl_fetch {
+#FASTLY fetch
+  set beresp.http.X-Method = req.request;
+  set beresp.cacheable = false;
+  esi;
+}
+
+sub vcl_error {
+  set obj.response = "Moved";
+  return (deliver);
+}
+`,
+        'fastly'
+      )
+
+      expect(code).toMatchInlineSnapshot(`
+        "vcl 4.1;
+        sub vcl_backend_response {
+          set beresp.http.X-Method = bereq.method;
+          set beresp.uncacheable = true;
+          set beresp.do_esi = true;
+        }
+
+        sub vcl_synth {
+          set resp.reason = \\"Moved\\";
+          return (deliver);
+        }"
+      `)
+      expect(changes).toMatchInlineSnapshot(`
+        Array [
+          "2:5 rename vcl_fetch to vcl_backend_response",
+          "3:1 remove #FASTLY fetch",
+          "4:30 rename req.request to bereq.method",
+          "5:7 rewrite beresp.cacheable into beresp.uncacheable",
+          "6:3 rewrite esi into beresp.do_esi",
+          "9:5 rename vcl_error to vcl_synth",
+          "10:7 rename obj.response to resp.reason",
+          "- add vcl 4.1;",
+        ]
+      `)
+    })
+
+    it('should rewrite error, restart and return actions', () => {
+      const { code, changes } = convert(
+        `
+sub vcl_recv {
+  if (req.http.Authorization) {
+    error 401 "Unauthorized";
+  }
+  log "url: " req.url;
+  return (lookup);
+}
+
+sub vcl_fetch {
+  if (beresp.status >= 500 && req.restarts < 1) {
+    restart;
+  }
+  if (req.url ~ "^/private") {
+    return (pass);
+  }
+}
+`,
+        'fastly'
+      )
+
+      expect(code).toMatchInlineSnapshot(`
+        "vcl 4.1;
+        import std;
+        sub vcl_recv {
+          if (req.http.Authorization) {
+            return (synth(401, \\"Unauthorized\\"));
+          }
+          std.log(\\"url: \\" + req.url);
+          return (hash);
+        }
+
+        sub vcl_backend_response {
+          if (beresp.status >= 500 && bereq.retries < 1) {
+            return (retry);
+          }
+          if (bereq.url ~ \\"^/private\\") {
+            set beresp.uncacheable = true;
+            return (deliver);
+          }
+        }"
+      `)
+      expect(changes).toMatchInlineSnapshot(`
+        Array [
+          "4:5 rewrite error into return (synth)",
+          "6:3 rewrite log into std.log()",
+          "7:3 rewrite return (lookup) into return (hash)",
+          "10:5 rename vcl_fetch to vcl_backend_response",
+          "11:31 rename req.restarts to bereq.retries",
+          "12:5 rewrite restart into return (retry)",
+          "14:7 rename req.url to bereq.url",
+          "15:5 rewrite return (pass) into beresp.uncacheable",
+          "- add vcl 4.1;",
+          "- add import std;",
+        ]
+      `)
+    })
+
+    it('should rewrite synthetic responses', () => {
+      const { code, changes } = convert(
+        `
+sub vcl_error {
+  if (obj.status == 801) {
+    synthetic {"moved"};
+    return (deliver);
+  }
+  synthetic.base64 "aGVsbG8=";
+  return (deliver);
+}
+`,
+        'fastly'
+      )
+
+      expect(code).toMatchInlineSnapshot(`
+        "vcl 4.1;
+        sub vcl_synth {
+          if (resp.status == 801) {
+            synthetic({\\"moved\\"});
+            return (deliver);
+          }
+          # TODO: synthetic.base64 has no equivalent in Varnish
+          synthetic.base64 \\"aGVsbG8=\\";
+          return (deliver);
+        }"
+      `)
+      expect(changes).toMatchInlineSnapshot(`
+        Array [
+          "2:5 rename vcl_error to vcl_synth",
+          "3:7 rename obj.status to resp.status",
+          "4:5 rewrite synthetic into synthetic()",
+          "7:3 todo synthetic.base64 has no equivalent in Varnish",
+          "- add vcl 4.1;",
+        ]
+      `)
+    })
+
+    it('should emulate locals and tables', () => {
+      const { code, changes } = convert(
+        `
+table redirects {
+  "/old": "/new",
+}
+
+sub vcl_recv {
+  declare local var.target STRING;
+  set var.target = table.lookup(redirects, req.url.path, "");
+  set req.http.X-Both = table.lookup(redirects, "/a") table.lookup(redirects, "/b");
+  set req.http.X-Count = std.atoi(req.http.X-Count);
+  if (!req.backend.healthy) {
+    error 801 var.target;
+  }
+}
+`,
+        'fastly'
+      )
+
+      expect(code).toMatchInlineSnapshot(`
+        "vcl 4.1;
+        import std;
+        sub vaceline_table_redirects {
+          unset req.http.Vaceline-Table-redirects;
+          if (req.http.Vaceline-Table-Key == \\"/old\\") {
+            set req.http.Vaceline-Table-redirects = \\"/new\\";
+          }
+        }
+
+        sub vcl_recv {
+          unset req.http.Vaceline-Local-target;
+          set req.http.Vaceline-Table-Key = req.url.path;
+          call vaceline_table_redirects;
+          if (!req.http.Vaceline-Table-redirects) {
+            set req.http.Vaceline-Table-redirects = \\"\\";
+          }
+          set req.http.Vaceline-Table-redirects-1 = req.http.Vaceline-Table-redirects;
+          set req.http.Vaceline-Local-target = req.http.Vaceline-Table-redirects-1;
+          set req.http.Vaceline-Table-Key = \\"/a\\";
+          call vaceline_table_redirects;
+          set req.http.Vaceline-Table-redirects-2 = req.http.Vaceline-Table-redirects;
+          set req.http.Vaceline-Table-Key = \\"/b\\";
+          call vaceline_table_redirects;
+          set req.http.Vaceline-Table-redirects-3 = req.http.Vaceline-Table-redirects;
+          set req.http.X-Both = req.http.Vaceline-Table-redirects-2 + req.http.Vaceline-Table-redirects-3;
+          set req.http.X-Count = std.integer(req.http.X-Count, 0);
+          if (!std.healthy(req.backend_hint)) {
+            return (synth(801, req.http.Vaceline-Local-target));
+          }
+        }"
+      `)
+      expect(changes).toMatchInlineSnapshot(`
+        Array [
+          "2:1 add sub vaceline_table_redirects for table redirects",
+          "7:17 rewrite var.target into a header",
+          "8:20 rewrite table.lookup() into call vaceline_table_redirects",
+          "9:25 rewrite table.lookup() into call vaceline_table_redirects",
+          "9:55 rewrite table.lookup() into call vaceline_table_redirects",
+          "10:26 rename std.atoi() to std.integer()",
+          "11:8 rewrite req.backend.healthy into std.healthy()",
+          "12:5 rewrite error into return (synth)",
+          "- add vcl 4.1;",
+          "- add import std;",
+        ]
+      `)
+    })
+
+    it('should leave TODO comments on bereq in vcl_miss and vcl_pass', () => {
+      const { code, changes } = convert(
+        `
+sub vcl_miss {
+  set bereq.http.X-Miss = "1";
+}
+
+sub vcl_pass {
+  unset bereq.http.Cookie;
+}
+`,
+        'fastly'
+      )
+
+      expect(code).toMatchInlineSnapshot(`
+        "vcl 4.1;
+        sub vcl_miss {
+          # TODO: bereq.http.X-Miss is not available in vcl_miss of Varnish, move it into vcl_backend_fetch
+          set bereq.http.X-Miss = \\"1\\";
+        }
+
+        sub vcl_pass {
+          # TODO: bereq.http.Cookie is not available in vcl_pass of Varnish, move it into vcl_backend_fetch
+          unset bereq.http.Cookie;
+        }"
+      `)
+      expect(changes).toMatchInlineSnapshot(`
+        Array [
+          "3:7 todo bereq.http.X-Miss is not available in vcl_miss of Varnish, move it into vcl_backend_fetch",
+          "7:9 todo bereq.http.Cookie is not available in vcl_pass of Varnish, move it into vcl_backend_fetch",
+          "- add vcl 4.1;",
+        ]
+      `)
+    })
+
+    it('should emulate each table with its own subroutines', () => {
+      const { code, changes } = convert(
+        `
+table foo {
+  "a": "1",
+}
+
+table foo_bar {
+  "b": "2",
+}
+
+sub vcl_recv {
+  set req.http.X-Foo = table.lookup(foo, "a");
+  set req.http.X-Foo-Bar = table.lookup(foo_bar, "b");
+}
+
+sub vcl_fetch {
+  set beresp.http.X-Foo-Bar = table.lookup(foo_bar, "b");
+}
+`,
+        'fastly'
+      )
+
+      expect(code.match(/^sub vaceline_table_\w+/gm)).toStrictEqual([
+        'sub vaceline_table_foo',
+        'sub vaceline_table_foo_bar',
+        'sub vaceline_table_foo_bar_bereq',
+      ])
+      expect(
+        changes.filter((change) => change.includes(' add sub'))
+      ).toStrictEqual([
+        '2:1 add sub vaceline_table_foo for table foo',
+        '6:1 add sub vaceline_table_foo_bar for table foo_bar',
+        '6:1 add sub vaceline_table_foo_bar_bereq for table foo_bar',
+      ])
+    })
+
+    it('should leave TODO comments on what cannot be translated', () => {
+      const { code, changes } = convert(
+        `
+sub vcl_recv {
+  set req.http.X-Country = client.geo.country_code;
+  if (randomint(0, 1) == 0) {
+    return (pass);
+  }
+}
+`,
+        'fastly'
+      )
+
+      expect(code).toMatchInlineSnapshot(`
+        "vcl 4.1;
+        sub vcl_recv {
+          # TODO: client.geo.country_code has no equivalent in Varnish
+          set req.http.X-Country = client.geo.country_code;
+          # TODO: randomint() has no equivalent in Varnish
+          if (randomint(0, 1) == 0) {
+            return (pass);
+          }
+        }"
+      `)
+      expect(changes).toMatchInlineSnapshot(`
+        Array [
+          "3:28 todo client.geo.country_code has no equivalent in Varnish",
+          "4:7 todo randomint() has no equivalent in Varnish",
+          "- add vcl 4.1;",
+        ]
+      `)
+    })
+  })
+
+  it('should throw for dialects which cannot be converted', () => {
+    expect(() =>
+      ConvertPlugin(parse('sub vcl_recv {}'), {
+        from: 'fastly',
+        to: 'varnish4',
+      })
+    ).toThrow('Converting fastly into varnish4 is not supported')
+  })
+})
+
+describe('convertTo option', () => {
+  it('should convert the dialect before printing', () => {
+    const code = 'vcl 4.1;\n\nsub vcl_backend_response {\n  return (retry);\n}'
+
+    expect(
+      transform(code, { dialect: 'varnish6', convertTo: 'fastly' })
+    ).toMatchObject({
+      code: 'sub vcl_fetch {\n  restart;\n}',
+      changes: [
+        { kind: 'remove', message: 'vcl 4.1;' },
+        { kind: 'rename', message: 'vcl_backend_response to vcl_fetch' },
+        { kind: 'rewrite', message: 'return (retry) into restart' },
+      ],
+    })
+    expect(transform(code, { dialect: 'varnish6' }).changes).toStrictEqual([])
+  })
+})
@@ -0,0 +1,102 @@
+import { Location, Node, Program, Statement } from '../../nodes'
+import { Dialect } from '../../parser/keywords'
+import { NodePath } from '../../traverser/path'
+import { fastlyToVarnish } from './fastly-to-varnish'
+import { varnishToFastly } from './varnish-to-fastly'
+
+export type ChangeKind = 'add' | 'rename' | 'rewrite' | 'remove' | 'todo'
+
+// A change made by the conversion, or a TODO left for what couldn't be made
+export interface ConversionChange {
+  kind: ChangeKind
+  message: string
+  // of the node in the source
+  loc?: Location
+}
+
+export interface ConversionContext {
+  // the location is of the node, or the comment, in the source
+  report(
+    kind: Exclude<ChangeKind, 'todo'>,
+    message: string,
+    node: { loc?: Location }
+  ): void
+  // leave a TODO comment on the statement of the path and report it
+  todo(path: NodePath<Node>, message: string): void
+}
+
+export type Converter = (ast: Program, context: ConversionContext) => void
+
+export interface ConvertOptions {
+  from: Dialect
+  to: Dialect
+}
+
+const converters: {
+  [K in Dialect]: { [L in Dialect]?: Converter }
+} = {
+  fastly: { varnish6: fastlyToVarnish },
+  varnish4: { fastly: varnishToFastly },
+  varnish6: { fastly: varnishToFastly },
+}
+
+// The statement the node is part of, where a comment can be put
+function getStatement(path: NodePath<Node>): Node {
+  for (let p: NodePath<Node> | null = path; p; p = p.parentPath) {
+    if (p.node.type.endsWith('Statement')) return p.node as Statement
+  }
+
+  return path.node
+}
+
+/**
+ * Rewrite the AST of a dialect into another in place, and return every
+ * change in source order. What has no equivalent in the other dialect is
+ * kept as it is with a `# TODO:` comment.
+ */
+export default (
+  ast: Program,
+  { from, to }: ConvertOptions
+): Array<ConversionChange> => {
+  if (from === to) return []
+
+  const converter = converters[from][to]
+
+  if (!converter) {
+    throw new Error(`Converting ${from} into ${to} is not supported`)
+  }
+
+  const changes: Array<ConversionChange> = []
+
+  converter(ast, {
+    report(kind, message, node) {
+      changes.push({ kind, message, loc: node.loc })
+    },
+    todo(path, message) {
+      const stmt = getStatement(path)
+      const value = `# TODO: ${message}`
+
+      if (!stmt.leadingComments?.some((comment) => comment.value === value)) {
+        stmt.leadingComments = [
+          ...(stmt.leadingComments ?? []),
+          { type: 'CommentLine', value },
+        ]
+      }
+
+      changes.push({ kind: 'todo', message, loc: path.node.loc })
+    },
+  })
+
+  // the ones without locations are on synthesized nodes, put after the others
+  const offset = (change: ConversionChange) =>
+    change.loc ? change.loc.start.offset : Number.MAX_SAFE_INTEGER
+
+  return changes.sort((a, b) => offset(a) - offset(b))
+}
+
+// `12:3 rename vcl_backend_response to vcl_fetch`
+export function formatChange({ kind, message, loc }: ConversionChange): string {
+  const pos = loc ? `${loc.start.line}:${loc.start.column}` : '-'
+
+  return `${pos} ${kind} ${message}`
+}
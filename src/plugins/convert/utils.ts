@@ -0,0 +1,28 @@
+import { NodePath } from '../../traverser/path'
+import { Statement } from '../../nodes'
+
+export interface Rename {
+  from: string
+  to: string
+}
+
+// Whether the variable is `prefix` or one under it
+export const matches = (name: string, prefix: string): boolean =>
+  name === prefix || name.startsWith(prefix + '.')
+
+// The name by the first rename matching the variable
+export function renameVariable(name: string, renames: Array<Rename>): string {
+  const rename = renames.find((rename) => matches(name, rename.from))
+
+  return rename ? rename.to + name.slice(rename.from.length) : name
+}
+
+// Replace the statement keeping its location and comments
+export function replaceStatement(
+  path: NodePath<Statement>,
+  node: Statement
+): void {
+  const { loc, leadingComments, trailingComments } = path.node
+
+  path.replaceWith({ ...node, loc, leadingComments, trailingComments })
+}
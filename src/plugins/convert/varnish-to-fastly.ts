@@ -0,0 +1,388 @@
+import { traverse } from '../../traverser'
+import { NodePath } from '../../traverser/path'
+import { BackendDefinition, Expression, Node, Program } from '../../nodes'
+import { dialects } from '../../parser/keywords'
+import { buildId, getIdName } from '../../utils/node'
+import { ConversionContext } from '.'
+import { matches, Rename, renameVariable, replaceStatement } from './utils'
+
+// Subroutines of Varnish and the ones of Fastly which run at the same point
+const subroutines = new Map([
+  ['vcl_backend_fetch', 'vcl_miss'],
+  ['vcl_backend_response', 'vcl_fetch'],
+  ['vcl_synth', 'vcl_error'],
+])
+
+const unsupportedSubroutines = new Set([
+  'vcl_backend_error',
+  'vcl_fini',
+  'vcl_init',
+  'vcl_pipe',
+  'vcl_purge',
+])
+
+// Variables with different names in Fastly, together with the ones under them
+const variables: Array<Rename> = [
+  { from: 'bereq.backend', to: 'req.backend' },
+  { from: 'beresp.reason', to: 'beresp.response' },
+  { from: 'local.ip', to: 'server.ip' },
+  { from: 'req.backend_hint', to: 'req.backend' },
+  { from: 'resp.reason', to: 'resp.response' },
+]
+
+// `resp` of vcl_synth is `obj` of vcl_error
+const subroutineVariables = new Map<string, Array<Rename>>([
+  [
+    'vcl_synth',
+    [
+      { from: 'resp.reason', to: 'obj.response' },
+      { from: 'resp', to: 'obj' },
+    ],
+  ],
+])
+
+// Return actions named differently in Fastly, in the subroutine
+const returnActions = [
+  { subroutine: 'vcl_recv', from: 'hash', to: 'lookup' },
+  { subroutine: 'vcl_hash', from: 'lookup', to: 'hash' },
+  { subroutine: 'vcl_pass', from: 'fetch', to: 'pass' },
+] as const
+
+const unsupportedVariables = [
+  'bereq.retries',
+  'beresp.keep',
+  'beresp.storage',
+  'beresp.storage_hint',
+]
+
+// the Fastly function and the number of the arguments it takes, the rest
+// such as fallback values are dropped
+const stdFunctions: {
+  [name: string]: { name: string; arity: number } | undefined
+} = {
+  'std.integer': { name: 'std.atoi', arity: 1 },
+  'std.ip': { name: 'std.str2ip', arity: 2 },
+  'std.querysort': { name: 'querystring.sort', arity: 1 },
+  'std.real': { name: 'std.atof', arity: 1 },
+  'std.strstr': { name: 'std.strstr', arity: 2 },
+  'std.time': { name: 'std.time', arity: 2 },
+  'std.tolower': { name: 'std.tolower', arity: 1 },
+  'std.toupper': { name: 'std.toupper', arity: 1 },
+}
+
+/**
+ * Convert Varnish VCL into Fastly VCL: subroutines and variables are
+ * renamed, `return (synth(...))` is rewritten into `error` and the std VMOD
+ * is replaced with the Fastly functions
+ */
+export function varnishToFastly(
+  ast: Program,
+  context: ConversionContext
+): void {
+  // the names of VMODs and their objects created with `new`
+  const vmods = new Set<string>()
+  // the name in Varnish, the subroutine is renamed after its body
+  let subroutine: string | undefined
+  // named probes, which Fastly only has inline in backends
+  const probes = new Map<string, Array<BackendDefinition>>()
+
+  for (const stmt of ast.body) {
+    if (stmt.type === 'ProbeStatement') probes.set(stmt.id.name, stmt.body)
+  }
+
+  const unsupported = (path: NodePath<Node>, construct: string) =>
+    context.todo(path, `${construct} has no equivalent in Fastly`)
+
+  traverse(ast, {
+    VersionStatement(path) {
+      context.report('remove', `vcl ${path.node.version};`, path.node)
+      path.remove()
+    },
+
+    ImportStatement(path) {
+      const { name } = path.node.module
+
+      if (name === 'std') {
+        context.report('remove', 'import std;', path.node)
+        path.remove()
+
+        return
+      }
+
+      vmods.add(name)
+      unsupported(path, `VMOD ${name}`)
+    },
+
+    ProbeStatement(path) {
+      context.report('remove', `probe ${path.node.id.name}`, path.node)
+      path.remove()
+    },
+
+    BackendStatement(path) {
+      for (const definition of path.node.body) {
+        const { key, value } = definition
+
+        if (key !== 'probe' || Array.isArray(value)) continue
+
+        const name = value.type === 'Identifier' ? value.name : 'the probe'
+        const probe = probes.get(name)
+
+        if (!probe) {
+          context.todo(path, `write ${name} inline as .probe = { ... }`)
+
+          continue
+        }
+
+        // each backend gets its own copy of the attributes
+        definition.value = JSON.parse(JSON.stringify(probe))
+        context.report(
+          'rewrite',
+          `.probe = ${name} into the attributes of the probe`,
+          definition
+        )
+      }
+    },
+
+    NewStatement(path) {
+      vmods.add(path.node.id.name)
+      unsupported(path, `new ${path.node.id.name}`)
+      path.skip()
+    },
+
+    SubroutineStatement: {
+      enter(path) {
+        subroutine = path.node.id.name
+
+        if (unsupportedSubroutines.has(subroutine)) {
+          unsupported(path, subroutine)
+        } else if (subroutine === 'vcl_backend_fetch') {
+          context.todo(
+            path,
+            'vcl_backend_fetch also runs for passed requests, copy it into vcl_pass if needed'
+          )
+        }
+      },
+      exit(path) {
+        const { id } = path.node
+        const name = subroutines.get(id.name)
+
+        if (name) {
+          context.report('rename', `${id.name} to ${name}`, id)
+          id.name = name
+        }
+
+        subroutine = undefined
+      },
+    },
+
+    SetStatement(path) {
+      const { left, right } = path.node
+
+      if (left.type === 'ValuePair') return
+
+      const name = getIdName(left)
+
+      if (name !== 'beresp.do_esi' && name !== 'beresp.uncacheable') return
+
+      if (right.type !== 'BooleanLiteral') {
+        unsupported(path, `${name} set to an expression`)
+
+        return
+      }
+
+      if (name === 'beresp.uncacheable') {
+        path.node.left = buildId('beresp.cacheable')
+        path.node.right = {
+          type: 'BooleanLiteral',
+          value: right.value === 'true' ? 'false' : 'true',
+        }
+        context.report('rewrite', `${name} into beresp.cacheable`, left)
+      } else if (right.value === 'true') {
+        replaceStatement(path, { type: 'EsiStatement' })
+        context.report('rewrite', `${name} into esi`, left)
+      } else {
+        // ESI is disabled by default
+        context.report('remove', `set ${name} = false;`, path.node)
+        path.remove()
+      }
+    },
+
+    ExpressionStatement(path) {
+      const { body } = path.node
+
+      if (body.type !== 'FunCallExpression' || body.callee.type === 'ValuePair')
+        return
+
+      const name = getIdName(body.callee)
+
+      if (name === 'hash_data') {
+        replaceStatement(path, {
+          type: 'SetStatement',
+          left: buildId('req.hash'),
+          operator: '+=',
+          right: body.args[0],
+        })
+        context.report('rewrite', 'hash_data() into req.hash', body)
+
+        return
+      }
+
+      const content =
+        name === 'std.log'
+          ? body.args[0]
+          : name === 'std.syslog'
+          ? body.args[1]
+          : undefined
+
+      if (content) {
+        replaceStatement(path, { type: 'LogStatement', content })
+        context.report('rewrite', `${name}() into log`, body)
+      }
+    },
+
+    ReturnStatement(path) {
+      const { action, args = [] } = path.node
+
+      if (!action) return
+
+      if (action === 'synth' || action === 'error') {
+        const [status, message] = args
+
+        if (status && status.type !== 'NumericLiteral') {
+          unsupported(path, `return (${action}) with a computed status`)
+
+          return
+        }
+
+        replaceStatement(path, {
+          type: 'ErrorStatement',
+          // the default of `return (error);` in Varnish
+          status: status ? status.number : 503,
+          message,
+        })
+        context.report('rewrite', `return (${action}) into error`, path.node)
+
+        return
+      }
+
+      const rename = returnActions.find(
+        (rename) => rename.from === action && rename.subroutine === subroutine
+      )
+
+      if (rename) {
+        path.node.action = rename.to
+        context.report(
+          'rewrite',
+          `return (${action}) into return (${rename.to})`,
+          path.node
+        )
+
+        return
+      }
+
+      if (action === 'retry') {
+        replaceStatement(path, { type: 'RestartStatement' })
+        context.report('rewrite', 'return (retry) into restart', path.node)
+
+        return
+      }
+
+      if (!dialects.fastly.returnActions.has(action)) {
+        unsupported(path, `return (${action})`)
+      }
+    },
+
+    FunCallExpression(path) {
+      const { callee, args } = path.node
+
+      if (callee.type === 'ValuePair') return
+
+      const name = getIdName(callee)
+      const [base] = name.split('.')
+
+      if (vmods.has(base) || name === 'ban') {
+        unsupported(path, `${name}()`)
+
+        return
+      }
+
+      if (base !== 'std') return
+
+      if (name === 'std.healthy') {
+        const healthy = getHealthy(args[0])
+
+        if (!healthy) {
+          unsupported(path, 'std.healthy() of the expression')
+
+          return
+        }
+
+        path.replaceWith({ ...buildId(healthy), loc: path.node.loc })
+        context.report('rewrite', `${name}() into ${healthy}`, callee)
+
+        return
+      }
+
+      const fn = stdFunctions[name]
+
+      if (!fn) {
+        unsupported(path, `${name}()`)
+
+        return
+      }
+
+      if (fn.name !== name) {
+        path.node.callee = buildId(fn.name)
+        context.report('rename', `${name}() to ${fn.name}()`, callee)
+      }
+
+      if (args.length > fn.arity) {
+        path.node.args = args.slice(0, fn.arity)
+        context.report('remove', `the fallback of ${name}()`, args[fn.arity])
+      }
+    },
+
+    Member(path) {
+      // the members inside are part of the name
+      path.skip()
+
+      const name = getIdName(path.node)
+
+      if (unsupportedVariables.some((variable) => matches(name, variable))) {
+        unsupported(path, name)
+
+        return
+      }
+
+      const renamed = renameVariable(
+        name,
+        ((subroutine && subroutineVariables.get(subroutine)) || []).concat(
+          variables
+        )
+      )
+      const id = buildId(renamed)
+
+      if (renamed === name || id.type !== 'Member') return
+
+      path.node.base = id.base
+      path.node.member = id.member
+      context.report('rename', `${name} to ${renamed}`, path.node)
+    },
+  })
+}
+
+// `backend.F_origin.healthy` for `std.healthy(F_origin)`
+function getHealthy(backend?: Expression): string | undefined {
+  if (!backend) return undefined
+
+  if (backend.type === 'Identifier') return `backend.${backend.name}.healthy`
+
+  if (
+    backend.type === 'Member' &&
+    ['req.backend_hint', 'bereq.backend'].includes(getIdName(backend))
+  ) {
+    return 'req.backend.healthy'
+  }
+
+  return undefined
+}
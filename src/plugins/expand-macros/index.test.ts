@@ -0,0 +1,66 @@
+import { parse, generate } from '../../lib'
+import { transform } from '../..'
+import ConvertPlugin from '../convert'
+import ExpandMacrosPlugin from '.'
+
+const code = `
+sub vcl_recv {
+#FASTLY recv
+  return (lookup);
+}
+
+sub vcl_deliver {
+#FASTLY deliver
+}
+`
+
+describe('ExpandMacrosPlugin', () => {
+  it('should expand macros into the placeholders', () => {
+    const ast = parse(code)
+
+    ExpandMacrosPlugin(ast, {
+      placeholders: {
+        recv: '# backends\nset req.backend = F_origin;',
+      },
+    })
+
+    expect(generate(ast).code).toBe(
+      [
+        'sub vcl_recv {',
+        '  #--FASTLY RECV BEGIN',
+        '  # backends',
+        '  set req.backend = F_origin;',
+        '  #--FASTLY RECV END',
+        '  return (lookup);',
+        '}',
+        '',
+        'sub vcl_deliver {',
+        '  #--FASTLY DELIVER BEGIN',
+        '  #--FASTLY DELIVER END',
+        '}',
+      ].join('\n')
+    )
+  })
+
+  it('should keep what the macros are expanded into when converting', () => {
+    const ast = parse(code)
+
+    ExpandMacrosPlugin(ast, {
+      placeholders: { deliver: 'set resp.http.X-Served-By = server.ip;' },
+    })
+    ConvertPlugin(ast, { from: 'fastly', to: 'varnish6' })
+
+    expect(generate(ast).code).toContain(
+      'sub vcl_deliver {\n  set resp.http.X-Served-By = local.ip;\n}'
+    )
+  })
+})
+
+describe('expandMacros option', () => {
+  it('should expand macros before printing', () => {
+    expect(transform(code).code).toContain('#FASTLY recv')
+    expect(transform(code, { expandMacros: true }).code).toContain(
+      '  #--FASTLY RECV BEGIN\n  #--FASTLY RECV END\n'
+    )
+  })
+})
@@ -0,0 +1,49 @@
+import { parse, traverse } from '../../lib'
+import { Node, Statement } from '../../nodes'
+
+export interface ExpandMacrosOptions {
+  // VCL put in place of the boilerplate by the subroutine, e.g. `recv`
+  placeholders: { [subroutine: string]: string | undefined }
+}
+
+// The statements of the placeholder without the locations, which are of the
+// placeholder instead of the source
+function parsePlaceholder(subroutine: string, code: string): Array<Statement> {
+  const program = parse(`sub vcl_${subroutine} {\n${code}\n}`)
+  const [sub] = program.body
+
+  traverse(program, {
+    enter({ node }) {
+      delete node.loc
+
+      for (const comment of node.leadingComments ?? []) delete comment.loc
+      for (const comment of node.trailingComments ?? []) delete comment.loc
+    },
+  })
+
+  return sub.type === 'SubroutineStatement' ? sub.body : []
+}
+
+/**
+ * Expand `#FASTLY <sub>` into the placeholder of the subroutine between the
+ * `#--FASTLY RECV BEGIN` and `#--FASTLY RECV END` markers, as Fastly does
+ * with its boilerplate, to see or run the VCL outside of Fastly
+ */
+export default (
+  ast: Node,
+  { placeholders = {} }: Partial<ExpandMacrosOptions> = {}
+): void => {
+  traverse(ast, {
+    FastlyMacroStatement(path) {
+      const { node } = path
+      const placeholder = placeholders[node.subroutine]
+
+      node.body = placeholder
+        ? parsePlaceholder(node.subroutine, placeholder)
+        : []
+
+      // macros in the placeholder are left as they are
+      path.skip()
+    },
+  })
+}
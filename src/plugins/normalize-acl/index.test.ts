@@ -0,0 +1,215 @@
+import { parse, generate } from '../../lib'
+import { transform } from '../..'
+import { formatDiagnostic } from '../../diagnostic'
+import NormalizeAclPlugin from '.'
+import { formatPrefix, parsePrefix } from './prefix'
+
+const normalize = (code: string) => {
+  const ast = parse(code)
+  const diagnostics = NormalizeAclPlugin(ast, { source: code })
+
+  return { code: generate(ast).code, diagnostics }
+}
+
+describe('NormalizeAclPlugin', () => {
+  it('should canonicalize addresses', () => {
+    expect(
+      normalize(`
+acl a {
+  "10.1.2.3"/8;
+  "192.0.2.1"/32;
+  "2001:0DB8:0000:0000:0000:0000:0000:0001";
+  "2001:db8:1:0:0:0:0:1"/64;
+  "::ffff:192.0.2.1";
+}
+`).code
+    ).toBe(
+      [
+        'acl a {',
+        '  "10.0.0.0"/8;',
+        '  "192.0.2.1";',
+        '  "::ffff:c000:201";',
+        '  "2001:db8::1";',
+        '  "2001:db8:1::"/64;',
+        '}',
+      ].join('\n')
+    )
+  })
+
+  it('should collapse adjacent ranges', () => {
+    expect(
+      normalize(`
+acl a {
+  "10.0.3.0"/24;
+  "10.0.0.0"/24;
+  "10.0.2.0"/24;
+  "10.0.1.0"/24;
+  "10.0.4.0"/24;
+}
+`).code
+    ).toBe(['acl a {', '  "10.0.0.0"/22;', '  "10.0.4.0"/24;', '}'].join('\n'))
+  })
+
+  it('should not collapse ranges into one taken by the other kind', () => {
+    const { code } = normalize(`
+acl a {
+  "10.0.0.0"/25;
+  "10.0.0.128"/25;
+  !"10.0.0.0"/24;
+  "10.0.0.0"/16;
+}
+`)
+
+    expect(code).toBe(
+      [
+        'acl a {',
+        '  "10.0.0.0"/16;',
+        '  !"10.0.0.0"/24;',
+        '  "10.0.0.0"/25;',
+        '  "10.0.0.128"/25;',
+        '}',
+      ].join('\n')
+    )
+  })
+
+  it('should keep negated entries within wider ranges', () => {
+    const { code, diagnostics } = normalize(`
+acl a {
+  "192.0.2.0"/24;
+  !"192.0.2.1";
+  "192.0.2.1"/32;
+}
+`)
+
+    expect(diagnostics.map((d) => d.message)).toStrictEqual([
+      '"192.0.2.1" conflicts with !"192.0.2.1"',
+    ])
+    expect(code).toBe(
+      [
+        'acl a {',
+        '  "192.0.2.0"/24;',
+        '  !"192.0.2.1";',
+        '  "192.0.2.1";',
+        '}',
+      ].join('\n')
+    )
+  })
+
+  it('should remove and report entries without effect', () => {
+    const { code, diagnostics } = normalize(`
+acl a {
+  "localhost";
+  "10.0.0.0"/8;
+  "10.1.0.0"/16;
+  !"10.2.0.0"/16;
+  !"10.2.1.0"/24;
+  !"192.0.2.1";
+  "10.0.0.0"/8;
+  "localhost";
+}
+`)
+
+    expect(
+      diagnostics.map(({ name, severity, message }) => ({
+        name,
+        severity,
+        message,
+      }))
+    ).toStrictEqual([
+      {
+        name: 'ShadowedAclEntry',
+        severity: 'warning',
+        message: '"10.1.0.0"/16 is already covered by "10.0.0.0"/8',
+      },
+      {
+        name: 'ShadowedAclEntry',
+        severity: 'warning',
+        message: '!"10.2.1.0"/24 is already covered by !"10.2.0.0"/16',
+      },
+      {
+        name: 'ShadowedAclEntry',
+        severity: 'warning',
+        message: '!"192.0.2.1" excludes addresses which no entry includes',
+      },
+      {
+        name: 'ShadowedAclEntry',
+        severity: 'warning',
+        message: '"10.0.0.0"/8 is a duplicate of "10.0.0.0"/8',
+      },
+      {
+        name: 'ShadowedAclEntry',
+        severity: 'warning',
+        message: '"localhost" is a duplicate of "localhost"',
+      },
+    ])
+    expect(code).toBe(
+      [
+        'acl a {',
+        '  "localhost";',
+        '  "10.0.0.0"/8;',
+        '  !"10.2.0.0"/16;',
+        '}',
+      ].join('\n')
+    )
+    expect(formatDiagnostic(diagnostics[0])).toMatchInlineSnapshot(`
+      "VCL3001 ShadowedAclEntry: \\"10.1.0.0\\"/16 is already covered by \\"10.0.0.0\\"/8
+
+        3 |   \\"localhost\\";
+        4 |   \\"10.0.0.0\\"/8;
+      > 5 |   \\"10.1.0.0\\"/16;
+              ^^^^^^^^^^^^^
+        6 |   !\\"10.2.0.0\\"/16;
+        7 |   !\\"10.2.1.0\\"/24;
+
+      hint: the longest matching prefix wins, so it has no effect
+      "
+    `)
+  })
+
+  it('should keep comments of collapsed entries', () => {
+    const { code } = normalize(`
+acl a {
+  # first
+  "10.0.0.0"/25;
+  # second
+  "10.0.0.128"/25;
+}
+`)
+
+    expect(code).toBe(
+      ['acl a {', '  # first', '  # second', '  "10.0.0.0"/24;', '}'].join('\n')
+    )
+  })
+})
+
+describe('normalizeAcl option', () => {
+  it('should normalize acls before printing', () => {
+    const code = 'acl a {\n  "10.0.0.1"/8;\n  "10.0.0.2"/8;\n}'
+
+    expect(transform(code).code).toBe(code)
+    expect(transform(code, { normalizeAcl: true })).toMatchObject({
+      code: 'acl a {\n  "10.0.0.0"/8;\n}',
+      diagnostics: [{ message: '"10.0.0.0"/8 is a duplicate of "10.0.0.0"/8' }],
+    })
+  })
+})
+
+describe('prefix', () => {
+  it('should round-trip addresses', () => {
+    const addresses = [
+      { value: '0.0.0.0', cidr: 0 },
+      { value: '255.255.255.255', cidr: undefined },
+      { value: '::', cidr: 0 },
+      { value: '::1', cidr: undefined },
+      { value: 'fe80::', cidr: 10 },
+      { value: '1:0:0:1::', cidr: 64 },
+      { value: '2001:db8::1:0:0:1', cidr: undefined },
+    ]
+
+    for (const address of addresses) {
+      const prefix = parsePrefix(address.value, address.cidr)
+
+      expect(prefix && formatPrefix(prefix)).toStrictEqual(address)
+    }
+  })
+})
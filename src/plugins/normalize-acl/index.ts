@@ -0,0 +1,225 @@
+import { traverse } from '../../lib'
+import { AclStatement, Ip, Node } from '../../nodes'
+import { VacelineDiagnostic } from '../../diagnostic'
+import {
+  compare,
+  contains,
+  formatPrefix,
+  getKey,
+  getParent,
+  getSibling,
+  parsePrefix,
+  Prefix,
+} from './prefix'
+
+interface Entry {
+  node: Ip
+  prefix: Prefix
+}
+
+export interface NormalizeAclOptions {
+  // the source the nodes were parsed from, used to render code frames
+  source: string
+}
+
+const show = (node: Ip) =>
+  (node.negated ? '!' : '') +
+  `"${node.value}"` +
+  (node.cidr !== undefined ? `/${node.cidr}` : '')
+
+/**
+ * Rewrite acls into the shortest list of entries matching the same
+ * addresses. Addresses are canonicalized, overlapping or adjacent ranges
+ * are collapsed and entries are sorted. The longest matching prefix wins
+ * in acls, so entries within a range of the same kind and negated entries
+ * outside of any range have no effect. They are removed and returned as
+ * warnings.
+ */
+export default (
+  ast: Node,
+  { source }: Partial<NormalizeAclOptions> = {}
+): Array<VacelineDiagnostic> => {
+  const diagnostics: Array<VacelineDiagnostic> = []
+
+  const report = (node: Ip, message: string, hint?: string) => {
+    if (!node.loc) return
+
+    diagnostics.push(
+      new VacelineDiagnostic({
+        name: 'ShadowedAclEntry',
+        message,
+        start: node.loc.start,
+        end: node.loc.end,
+        hint,
+        severity: 'warning',
+        source,
+      })
+    )
+  }
+
+  traverse(ast, {
+    AclStatement(path) {
+      path.node.body = normalize(path.node, report)
+    },
+  })
+
+  return diagnostics.sort((a, b) => a.start.offset - b.start.offset)
+}
+
+function normalize(
+  acl: AclStatement,
+  report: (node: Ip, message: string, hint?: string) => void
+): Array<Ip> {
+  // e.g. `"localhost"` which has no range
+  const names: Array<Ip> = []
+  const entries: Array<Entry> = []
+  // the first entry of each range
+  const ranges = new Map<string, Entry>()
+  // entries of the same range with the other kind, which is ambiguous
+  const conflicts: Array<Entry> = []
+
+  for (const node of acl.body) {
+    const prefix = parsePrefix(node.value, node.cidr)
+
+    if (!prefix) {
+      const found = names.find(
+        (name) => name.value === node.value && !name.negated === !node.negated
+      )
+
+      if (found) {
+        report(node, `${show(node)} is a duplicate of ${show(found)}`)
+      } else {
+        names.push(node)
+      }
+
+      continue
+    }
+
+    Object.assign(node, formatPrefix(prefix))
+
+    const entry = { node, prefix }
+    const found = ranges.get(getKey(prefix))
+
+    if (!found) {
+      ranges.set(getKey(prefix), entry)
+      entries.push(entry)
+    } else if (!found.node.negated === !node.negated) {
+      report(node, `${show(node)} is a duplicate of ${show(found.node)}`)
+    } else {
+      report(
+        node,
+        `${show(node)} conflicts with ${show(found.node)}`,
+        'remove either of them'
+      )
+      conflicts.push(entry)
+    }
+  }
+
+  // the closest entry of a wider range
+  const getOuter = (entry: Entry) => {
+    let outer: Entry | undefined
+
+    for (const other of entries) {
+      if (
+        other.prefix.length < entry.prefix.length &&
+        contains(other.prefix, entry.prefix) &&
+        (!outer || other.prefix.length > outer.prefix.length)
+      ) {
+        outer = other
+      }
+    }
+
+    return outer
+  }
+
+  // decided by the entries before any is removed, removing one doesn't change
+  // the kind of the closest wider range of the others
+  const shadowed = new Set(
+    entries.filter((entry) => {
+      const outer = getOuter(entry)
+
+      if (outer && !outer.node.negated === !entry.node.negated) {
+        report(
+          entry.node,
+          `${show(entry.node)} is already covered by ${show(outer.node)}`,
+          'the longest matching prefix wins, so it has no effect'
+        )
+
+        return true
+      }
+
+      if (!outer && entry.node.negated) {
+        report(
+          entry.node,
+          `${show(entry.node)} excludes addresses which no entry includes`,
+          'it has no effect'
+        )
+
+        return true
+      }
+
+      return false
+    })
+  )
+
+  let kept = entries.filter((entry) => !shadowed.has(entry))
+
+  // collapse the two halves of a range into the range until nothing changes
+  let collapsed = true
+
+  while (collapsed) {
+    collapsed = false
+
+    const keys = new Map(kept.map((entry) => [getKey(entry.prefix), entry]))
+
+    for (const entry of conflicts) keys.set(getKey(entry.prefix), entry)
+
+    for (const entry of kept) {
+      const sibling = getSibling(entry.prefix)
+      const other = sibling && keys.get(getKey(sibling))
+
+      if (
+        !other ||
+        !other.node.negated !== !entry.node.negated ||
+        conflicts.includes(other) ||
+        conflicts.includes(entry)
+      ) {
+        continue
+      }
+
+      const parent = getParent(entry.prefix)
+
+      // the wider range is taken by an entry of the other kind
+      if (keys.has(getKey(parent))) continue
+
+      const [first, second] =
+        compare(entry.prefix, other.prefix) < 0
+          ? [entry, other]
+          : [other, entry]
+
+      Object.assign(first.node, formatPrefix(parent), {
+        leadingComments: [
+          ...(first.node.leadingComments ?? []),
+          ...(second.node.leadingComments ?? []),
+        ],
+        trailingComments: [
+          ...(first.node.trailingComments ?? []),
+          ...(second.node.trailingComments ?? []),
+        ],
+      })
+      first.prefix = parent
+
+      kept = kept.filter((entry) => entry !== second)
+      collapsed = true
+
+      break
+    }
+  }
+
+  return names.concat(
+    kept
+      .concat(conflicts)
+      .sort((a, b) => compare(a.prefix, b.prefix))
+      .map((entry) => entry.node)
+  )
+}
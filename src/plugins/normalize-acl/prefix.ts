@@ -0,0 +1,148 @@
+import isIp from 'is-ip'
+
+// An address range as a bit string, e.g. `"10.0.0.0"/8` is `00001010` and
+// 24 zeros with the length of 8
+export interface Prefix {
+  version: 4 | 6
+  bits: string
+  length: number
+}
+
+function toIpv4Bits(value: string): string {
+  return value
+    .split('.')
+    .map((octet) => Number(octet).toString(2).padStart(8, '0'))
+    .join('')
+}
+
+function toIpv6Bits(value: string): string {
+  // drop the zone index, e.g. `fe80::1%eth0`
+  let address = value.replace(/%.*$/, '')
+
+  // `::ffff:192.0.2.1` ends with an IPv4 address
+  const ipv4 = /(\d+)\.(\d+)\.(\d+)\.(\d+)$/.exec(address)
+
+  if (ipv4) {
+    const [a, b, c, d] = ipv4.slice(1).map(Number)
+
+    address =
+      address.slice(0, ipv4.index) +
+      ((a << 8) | b).toString(16) +
+      ':' +
+      ((c << 8) | d).toString(16)
+  }
+
+  const [head, tail] = address.split('::')
+  const headGroups = head ? head.split(':') : []
+  const tailGroups = tail ? tail.split(':') : []
+  const groups =
+    tail === undefined
+      ? headGroups
+      : headGroups.concat(
+          Array.from(
+            { length: 8 - headGroups.length - tailGroups.length },
+            () => '0'
+          ),
+          tailGroups
+        )
+
+  return groups
+    .map((group) => parseInt(group, 16).toString(2).padStart(16, '0'))
+    .join('')
+}
+
+// Returns null for what is not an IP address such as `localhost`
+export function parsePrefix(value: string, cidr?: number): Prefix | null {
+  const version = isIp.version(value)
+
+  if (!version) return null
+
+  const bits = version === 4 ? toIpv4Bits(value) : toIpv6Bits(value)
+  const length = cidr ?? bits.length
+
+  return {
+    version,
+    // the bits after the prefix are zeros in the canonical form
+    bits: bits.slice(0, length).padEnd(bits.length, '0'),
+    length,
+  }
+}
+
+function toIpv6(bits: string): string {
+  const groups = []
+
+  for (let i = 0; i < bits.length; i += 16) {
+    groups.push(parseInt(bits.slice(i, i + 16), 2).toString(16))
+  }
+
+  // the longest run of zero groups is shortened into `::` (RFC 5952)
+  let start = -1
+  let length = 0
+
+  for (let i = 0; i < groups.length; i++) {
+    let j = i
+
+    while (groups[j] === '0') j++
+
+    if (j - i > length && j - i > 1) {
+      start = i
+      length = j - i
+    }
+  }
+
+  if (start === -1) return groups.join(':')
+
+  return (
+    groups.slice(0, start).join(':') +
+    '::' +
+    groups.slice(start + length).join(':')
+  )
+}
+
+// `cidr` is undefined for a single address
+export function formatPrefix({
+  version,
+  bits,
+  length,
+}: Prefix): { value: string; cidr: number | undefined } {
+  const value =
+    version === 4
+      ? [0, 8, 16, 24].map((i) => parseInt(bits.slice(i, i + 8), 2)).join('.')
+      : toIpv6(bits)
+
+  return { value, cidr: length === bits.length ? undefined : length }
+}
+
+export const getKey = ({ version, bits, length }: Prefix): string =>
+  `${version}:${bits.slice(0, length)}`
+
+export const contains = (outer: Prefix, inner: Prefix): boolean =>
+  outer.version === inner.version &&
+  outer.length <= inner.length &&
+  inner.bits.startsWith(outer.bits.slice(0, outer.length))
+
+// The other half of the range one bit shorter, `"10.0.1.0"/24` for `"10.0.0.0"/24`
+export function getSibling({ version, bits, length }: Prefix): Prefix | null {
+  if (length === 0) return null
+
+  const flipped = bits[length - 1] === '0' ? '1' : '0'
+
+  return {
+    version,
+    bits: bits.slice(0, length - 1) + flipped + bits.slice(length),
+    length,
+  }
+}
+
+export function getParent({ version, bits, length }: Prefix): Prefix {
+  return {
+    version,
+    bits: bits.slice(0, length - 1).padEnd(bits.length, '0'),
+    length: length - 1,
+  }
+}
+
+export const compare = (a: Prefix, b: Prefix): number =>
+  a.version - b.version ||
+  (a.bits < b.bits ? -1 : a.bits > b.bits ? 1 : 0) ||
+  a.length - b.length
@@ -1,75 +1,212 @@
 import { Node } from '../nodes'
-import { NodePath, TraversalContext, Handler } from './path'
-
-const flat = <T>(arr: Array<T>) =>
-  arr.reduce((acc, cur) => acc.concat(cur), [] as Array<T>)
-
-function next(node: Node) {
-  return flat(
-    Object.values(node).filter(
-      (v) =>
-        Array.isArray(v) ||
-        // FIXME: too fragile
-        typeof v?.type === 'string'
-    )
-  )
+import { NodePath, TraversalContext, Visitor, VisitNodeFunction } from './path'
+import { getVisitorKeys, isNodeType } from './visitor-keys'
+
+type TraversalCallback = (path: NodePath, context: TraversalContext) => void
+
+export interface TraversalCallbacks {
+  enter?: TraversalCallback
+  // called after all the children are traversed
+  exit?: TraversalCallback
 }
 
+const defaultContext: TraversalContext = {
+  parent: null,
+  parentPath: null,
+  inList: false,
+  state: null,
+}
+
+// Returns true if the traversal has been stopped
 export function traverseNode(
   node: Node,
-  callback: (path: NodePath, context: TraversalContext) => void,
-  context: TraversalContext = {
-    parent: null,
-    parentPath: null,
-    inList: false,
-    state: null,
+  callbacks: TraversalCallbacks | TraversalCallback,
+  context: TraversalContext = defaultContext
+): boolean {
+  return visit(
+    new NodePath(node, context),
+    typeof callbacks === 'function' ? { enter: callbacks } : callbacks,
+    context
+  )
+}
+
+function visit(
+  path: NodePath,
+  callbacks: TraversalCallbacks,
+  context: TraversalContext
+): boolean {
+  const { enter, exit } = callbacks
+
+  if (enter) {
+    enter(path, context)
+
+    // the node has been replaced, visit the new one
+    while (path.shouldRequeue && !path.shouldSkip) {
+      path.shouldRequeue = false
+      enter(path, context)
+    }
   }
-): void {
-  const path = new NodePath(node, context)
 
-  // If sobroutine, ..., then set `inList` true
+  if (path.shouldSkip) return path.shouldStop
+
+  const node = path.node
+
+  for (const key of getVisitorKeys(node)) {
+    const child = ((node as unknown) as Record<string, unknown>)[key] as
+      | Node
+      | Array<Node>
+      | undefined
 
-  callback(path, context)
+    // optional children such as `alternative` of IfStatement
+    if (!child) continue
 
-  const nextNodes = next(node)
+    const inList = Array.isArray(child)
 
-  for (const nextNode of nextNodes) {
-    traverseNode(nextNode, callback, {
-      ...context,
+    const childContext: TraversalContext = {
       parent: node,
       parentPath: path,
-    })
+      inList,
+      container: inList ? (child as Array<Node>) : undefined,
+      parentKey: key,
+      key: undefined,
+      state: context.state,
+    }
+
+    const stopped = Array.isArray(child)
+      ? traverseList(child, callbacks, childContext)
+      : visit(new NodePath(child, childContext), callbacks, childContext)
+
+    if (stopped) return true
   }
+
+  if (exit) exit(path, context)
+
+  return path.shouldStop
 }
 
-export function traverse(
-  ast: Node,
-  handler: Handler,
-  context: TraversalContext = {
-    parent: null,
-    parentPath: null,
-    inList: false,
-    state: null,
+// The list is walked live so that nodes can be inserted or removed while walking
+function traverseList(
+  list: Array<Node>,
+  callbacks: TraversalCallbacks,
+  context: TraversalContext
+): boolean {
+  const visited = new Set<Node>()
+
+  for (let i = 0; i < list.length; i++) {
+    const node = list[i]
+
+    if (visited.has(node)) continue
+
+    visited.add(node)
+
+    context.key = i
+
+    const path = new NodePath(node, context)
+
+    if (visit(path, callbacks, context)) return true
+
+    visited.add(path.node)
+
+    // Look at the same index again, where nodes inserted before
+    // or the node after the removed one can be found
+    i--
   }
+
+  return false
+}
+
+interface ExplodedVisitNode<S> {
+  enter: Array<VisitNodeFunction<S, Node>>
+  exit: Array<VisitNodeFunction<S, Node>>
+}
+
+interface ExplodedVisitor<S> extends ExplodedVisitNode<S> {
+  types: Map<string, ExplodedVisitNode<S>>
+}
+
+// Normalize a visitor into lists of enter/exit functions per node type
+export function explode<S>(visitor: Visitor<S>): ExplodedVisitor<S> {
+  const exploded: ExplodedVisitor<S> = {
+    enter: [],
+    exit: [],
+    types: new Map(),
+  }
+
+  for (const key of Object.keys(visitor)) {
+    const visit = visitor[key]
+
+    if (!visit) continue
+
+    if (key === 'enter' || key === 'entry' || key === 'exit') {
+      exploded[key === 'exit' ? 'exit' : 'enter'].push(
+        visit as VisitNodeFunction<S, Node>
+      )
+
+      continue
+    }
+
+    const { enter, exit } =
+      typeof visit === 'function' ? { enter: visit, exit: undefined } : visit
+
+    for (const type of key.split('|').map((t) => t.trim())) {
+      if (!isNodeType(type)) {
+        throw new Error(`Unknown node type in visitor: '${type}'`)
+      }
+
+      let fns = exploded.types.get(type)
+
+      if (!fns) {
+        fns = { enter: [], exit: [] }
+        exploded.types.set(type, fns)
+      }
+
+      if (enter) fns.enter.push(enter)
+      if (exit) fns.exit.push(exit)
+    }
+  }
+
+  return exploded
+}
+
+export function traverse<S = unknown>(
+  ast: Node,
+  visitor: Visitor<S>,
+  context: TraversalContext = defaultContext
 ): void {
-  const handle = (path: NodePath, context: TraversalContext) => {
-    if (handler.entry) {
-      handler.entry.call(context.state, path)
+  const { enter, exit, types } = explode(visitor)
+
+  const call = (
+    fns: Array<VisitNodeFunction<S, Node>> | undefined,
+    path: NodePath,
+    context: TraversalContext
+  ) => {
+    if (!fns) return
+
+    for (const fn of fns) {
+      fn.call(context.state as S, path)
     }
   }
 
-  traverseNode(ast, handle, context)
+  traverseNode(
+    ast,
+    {
+      enter(path, context) {
+        call(enter, path, context)
+        call(types.get(path.node.type)?.enter, path, context)
+      },
+      exit(path, context) {
+        call(types.get(path.node.type)?.exit, path, context)
+        call(exit, path, context)
+      },
+    },
+    context
+  )
 }
 
 // Create traversal path array recursively
 export function createPathArray(
   ast: Node,
-  context: TraversalContext = {
-    parent: null,
-    parentPath: null,
-    inList: false,
-    state: null,
-  }
+  context: TraversalContext = defaultContext
 ): Array<NodePath> {
   const paths: Array<NodePath> = []
   const appendPath = (path: NodePath) => paths.push(path)
@@ -1,17 +1,55 @@
-import { Node } from '../nodes'
+import { Node, NodeType } from '../nodes'
+import { Scope } from './scope'
 
-export interface Handler {
-  entry?(path: NodePath<Node>): void
+type NodeOf<K extends NodeType> = Extract<Node, { type: K }>
+
+// Declared as a method to be bivariant, so that visitors for
+// a specific node type can be put together with generic ones
+export type VisitNodeFunction<S, T extends Node> = {
+  bivarianceHack(this: S, path: NodePath<T>): void
+}['bivarianceHack']
+
+export interface VisitNodeObject<S, T extends Node> {
+  enter?: VisitNodeFunction<S, T>
+  exit?: VisitNodeFunction<S, T>
 }
 
+export type VisitNode<S, T extends Node> =
+  | VisitNodeFunction<S, T>
+  | VisitNodeObject<S, T>
+
+/**
+ * Callbacks keyed by node type, e.g.
+ * `{ SetStatement: { enter, exit }, 'IfStatement|SubroutineStatement'(path) {} }`
+ * `enter` & `exit` at the top level are called for every node.
+ */
+export type Visitor<S = unknown> = VisitNodeObject<S, Node> & {
+  /** alias of `enter` */
+  entry?: VisitNodeFunction<S, Node>
+} & {
+    [K in NodeType]?: VisitNode<S, NodeOf<K>>
+  } & {
+    // multiple types joined with `|`
+    [key: string]: VisitNode<S, Node> | undefined
+  }
+
+export type Handler<S = unknown> = Visitor<S>
+
 export interface TraversalContext {
   parent: Node | null
   parentPath: NodePath<Node> | null
   inList: boolean
+  // the list the node is in, when `inList`
+  container?: Array<Node>
+  // the property name on the parent which holds the node (or the list)
+  parentKey?: string
+  // the index in the list, when `inList`
   key?: number
   state: unknown
 }
 
+const toArray = <T>(v: T | Array<T>): Array<T> => (Array.isArray(v) ? v : [v])
+
 export class NodePath<T extends Node = Node> implements TraversalContext {
   node: T
 
@@ -19,20 +57,21 @@ export class NodePath<T extends Node = Node> implements TraversalContext {
   // hub: HubInterface;
   // contexts: Array<TraversalContext>;
   // data: Object;
-  // shouldSkip: boolean;
-  // shouldStop: boolean;
-  // removed: boolean;
+  shouldSkip = false
+  shouldStop = false
+  removed = false
+  // set when the node is replaced so that the traverser visits the new one
+  shouldRequeue = false
   state!: unknown
   // opts?: Object
   // skipKeys?: Object
   parentPath!: NodePath<Node> | null
   context!: TraversalContext
-  // container?: Object | Array<Object>
+  container?: Array<Node>
   listKey?: string
   inList: boolean
   parentKey?: string
   key?: number
-  // scope?: Scope;
   // type?: string
   // typeAnnotation?: Object
 
@@ -42,20 +81,158 @@ export class NodePath<T extends Node = Node> implements TraversalContext {
     this.parent = context.parent
     this.parentPath = context.parentPath
     this.inList = context.inList
+    this.container = context.container
+    this.parentKey = context.parentKey
+    this.listKey = context.inList ? context.parentKey : undefined
     this.key = context.key
 
     this.state = context.state
   }
 
+  // the scope of the closest subroutine, or the program
+  get scope(): Scope {
+    return Scope.get(this)
+  }
+
   // getSibling(key: number) {
   //   if (this.inList) return this.parentPath.nodes
   // }
 
-  // TODO:
-  // Manipulation
-  // replaceWith() {}
-  // replaceWithMultiple() {}
-  // insertBefore() {}
-  // insertAfter() {}
-  // remove() {}
+  /**
+   * Manipulation
+   */
+
+  replaceWith(node: Node): void {
+    this.assertNotRemoved()
+
+    if (this.inList) {
+      const container = this.getContainer()
+      container[this.resyncKey()] = node
+    } else if (this.parent && this.parentKey) {
+      this.setOnParent(node)
+    }
+
+    this.node = node as T
+    this.shouldRequeue = true
+  }
+
+  // The first node replaces the node of the path and
+  // the rest are inserted after that
+  replaceWithMultiple(nodes: Array<Node>): void {
+    this.assertNotRemoved()
+
+    if (!nodes.length) {
+      this.remove()
+
+      return
+    }
+
+    const [first, ...rest] = nodes
+
+    this.replaceWith(first)
+
+    if (rest.length) this.insertAfter(rest)
+  }
+
+  insertBefore(nodes: Node | Array<Node>): void {
+    this.assertNotRemoved()
+
+    const container = this.getContainer()
+    const key = this.resyncKey()
+    const inserted = toArray(nodes)
+
+    container.splice(key, 0, ...inserted)
+
+    this.key = key + inserted.length
+  }
+
+  insertAfter(nodes: Node | Array<Node>): void {
+    this.assertNotRemoved()
+
+    const container = this.getContainer()
+    const key = this.resyncKey()
+
+    container.splice(key + 1, 0, ...toArray(nodes))
+  }
+
+  remove(): void {
+    this.assertNotRemoved()
+
+    if (this.inList) {
+      this.getContainer().splice(this.resyncKey(), 1)
+    } else if (this.parent && this.parentKey) {
+      this.setOnParent(undefined)
+    }
+
+    this.removed = true
+    this.shouldSkip = true
+  }
+
+  // Insert nodes at the start of the list at `listKey` of the node
+  unshiftContainer(listKey: string, nodes: Node | Array<Node>): void {
+    this.getList(listKey).unshift(...toArray(nodes))
+  }
+
+  // Insert nodes at the end of the list at `listKey` of the node
+  pushContainer(listKey: string, nodes: Node | Array<Node>): void {
+    this.getList(listKey).push(...toArray(nodes))
+  }
+
+  /**
+   * Traversal control
+   */
+
+  // Don't traverse the children of the node
+  skip(): void {
+    this.shouldSkip = true
+  }
+
+  // Stop the entire traversal
+  stop(): void {
+    this.shouldStop = true
+    this.shouldSkip = true
+  }
+
+  private getContainer(): Array<Node> {
+    if (!this.inList || !this.container) {
+      throw new Error(
+        `${this.node.type} is not in a list, so no node can be inserted next to it`
+      )
+    }
+
+    return this.container
+  }
+
+  private getList(listKey: string): Array<Node> {
+    const list = (this.node as Record<string, unknown>)[listKey]
+
+    if (!Array.isArray(list)) {
+      throw new Error(`${this.node.type} has no list at '${listKey}'`)
+    }
+
+    return list
+  }
+
+  // The node may have been moved by manipulations on the siblings
+  private resyncKey(): number {
+    const container = this.getContainer()
+
+    if (this.key === undefined || container[this.key] !== this.node) {
+      this.key = container.indexOf(this.node)
+    }
+
+    return this.key
+  }
+
+  private setOnParent(node: Node | undefined) {
+    const parent = this.parent as Record<string, unknown> | null
+
+    if (parent && this.parentKey) parent[this.parentKey] = node
+  }
+
+  private assertNotRemoved() {
+    if (this.removed) {
+      throw new Error(`${this.node.type} has already been removed`)
+    }
+  }
 }
@@ -0,0 +1,333 @@
+import {
+  DeclareValueType,
+  Identifier,
+  Member,
+  Node,
+  Program,
+  SubroutineStatement,
+} from '../nodes'
+import { NodePath } from './path'
+import { traverseNode } from '.'
+import { getIdName } from '../utils/node'
+
+export type BindingKind =
+  | 'local'
+  | 'subroutine'
+  | 'acl'
+  | 'table'
+  | 'backend'
+  | 'director'
+  | 'penaltybox'
+  | 'ratecounter'
+  | 'label'
+
+export interface Reference {
+  name: string
+  path: NodePath<Identifier | Member>
+  // undefined when the name is not declared
+  binding: Binding | undefined
+  // `set`, `add` and `unset` write to the variable
+  isAssignment: boolean
+}
+
+export class Binding {
+  name: string
+  kind: BindingKind
+  // the path of the declaring statement
+  path: NodePath
+  valueType?: DeclareValueType
+
+  // reads and writes, in the source order
+  references: Array<Reference> = []
+
+  constructor(
+    name: string,
+    kind: BindingKind,
+    path: NodePath,
+    valueType?: DeclareValueType
+  ) {
+    this.name = name
+    this.kind = kind
+    this.path = path
+    this.valueType = valueType
+  }
+
+  get assignments(): Array<Reference> {
+    return this.references.filter((ref) => ref.isAssignment)
+  }
+
+  get referenced(): boolean {
+    return this.references.some((ref) => !ref.isAssignment)
+  }
+}
+
+type ScopeBlock = Program | SubroutineStatement
+
+// Scopes are cached per block node since paths are created on each traversal
+const cache = new WeakMap<Node, Scope>()
+
+const declarationKinds: { [type: string]: BindingKind | undefined } = {
+  SubroutineStatement: 'subroutine',
+  AclStatement: 'acl',
+  TableStatement: 'table',
+  BackendStatement: 'backend',
+  DirectorStatement: 'director',
+  PenaltyboxStatement: 'penaltybox',
+  RatecounterStatement: 'ratecounter',
+}
+
+const backendVariables = new Set(['req.backend', 'bereq.backend'])
+
+// The arguments of functions which take a table, an acl, a backend, a
+// ratecounter or a penaltybox, the others are variables such as `now`
+const declarationArgs = new Map<string, Array<number>>([
+  ['table.contains', [0]],
+  ['table.lookup', [0]],
+  ['table.lookup_acl', [0]],
+  ['table.lookup_backend', [0]],
+  ['table.lookup_bool', [0]],
+  ['table.lookup_float', [0]],
+  ['table.lookup_integer', [0]],
+  ['table.lookup_ip', [0]],
+  ['table.lookup_rtime', [0]],
+  ['ratelimit.check_rate', [1, 5]],
+  ['ratelimit.check_rates', [1, 5, 9]],
+  ['ratelimit.penaltybox_add', [0]],
+  ['ratelimit.penaltybox_has', [0]],
+  ['ratelimit.ratecounter_increment', [0]],
+  ['std.healthy', [0]],
+])
+
+export function isScopeBlock(node: Node): node is ScopeBlock {
+  return node.type === 'Program' || node.type === 'SubroutineStatement'
+}
+
+/**
+ * Program has the bindings of subroutines, acls, tables, backends,
+ * directors, penaltyboxes and ratecounters and each subroutine has the bindings of its local variables
+ * and labels.
+ */
+export class Scope {
+  path: NodePath<ScopeBlock>
+  block: ScopeBlock
+  parent: Scope | null
+
+  bindings: Map<string, Binding> = new Map()
+  // every reference in the scope including undeclared ones
+  references: Array<Reference> = []
+
+  constructor(path: NodePath<ScopeBlock>, parent: Scope | null) {
+    this.path = path
+    this.block = path.node
+    this.parent = parent
+  }
+
+  static get(path: NodePath): Scope {
+    let blockPath: NodePath | null = path
+
+    while (blockPath && !isScopeBlock(blockPath.node)) {
+      blockPath = blockPath.parentPath
+    }
+
+    if (!blockPath) {
+      throw new Error(`${path.node.type} is not inside any scope`)
+    }
+
+    const cached = cache.get(blockPath.node)
+
+    if (cached) return cached
+
+    const parent = blockPath.parentPath ? Scope.get(blockPath.parentPath) : null
+    const scope = new Scope(blockPath as NodePath<ScopeBlock>, parent)
+
+    cache.set(blockPath.node, scope)
+
+    scope.crawl()
+
+    return scope
+  }
+
+  get kind(): 'program' | 'subroutine' {
+    return this.block.type === 'Program' ? 'program' : 'subroutine'
+  }
+
+  getOwnBinding(name: string): Binding | undefined {
+    return this.bindings.get(name)
+  }
+
+  getBinding(name: string): Binding | undefined {
+    return this.getOwnBinding(name) ?? this.parent?.getBinding(name)
+  }
+
+  isDeclared(name: string): boolean {
+    return !!this.getBinding(name)
+  }
+
+  // Collect bindings and references again, e.g. after the tree is modified
+  crawl(): void {
+    this.bindings = new Map()
+    this.references = []
+
+    if (this.kind === 'program') {
+      this.crawlProgram()
+    } else {
+      this.crawlSubroutine()
+    }
+  }
+
+  private crawlProgram() {
+    const program = this.path
+
+    for (const [key, stmt] of (this.block as Program).body.entries()) {
+      const kind = declarationKinds[stmt.type]
+
+      if (!kind || !('id' in stmt) || stmt.id.type !== 'Identifier') continue
+
+      // the first declaration wins
+      if (this.bindings.has(stmt.id.name)) continue
+
+      const path = new NodePath(stmt, {
+        parent: program.node,
+        parentPath: program,
+        inList: true,
+        container: (this.block as Program).body,
+        parentKey: 'body',
+        key,
+        state: null,
+      })
+
+      this.bindings.set(stmt.id.name, new Binding(stmt.id.name, kind, path))
+    }
+
+    this.walk((path) => {
+      const { node, parent } = path
+
+      if (node.type !== 'Identifier' || !parent) return
+
+      const isReference =
+        // call sub_name;
+        (parent.type === 'CallStatement' && path.parentKey === 'subroutine') ||
+        // table.lookup(table_name, ...) or custom_sub()
+        (parent.type === 'FunCallExpression' &&
+          (path.parentKey === 'args'
+            ? parent.callee.type !== 'ValuePair' &&
+              !!declarationArgs
+                .get(getIdName(parent.callee))
+                ?.includes(path.key as number)
+            : this.getOwnBinding(node.name)?.kind === 'subroutine')) ||
+        // client.ip ~ acl_name
+        (parent.type === 'BinaryExpression' &&
+          path.parentKey === 'right' &&
+          (parent.operator === '~' || parent.operator === '!~')) ||
+        // "key": backend_name in BACKEND and ACL tables
+        (parent.type === 'TableDefinition' && path.parentKey === 'value') ||
+        // { .backend = backend_name; } in a director
+        (parent.type === 'DirectorProperty' &&
+          parent.key === 'backend' &&
+          path.parentPath?.parent?.type === 'DirectorBackend') ||
+        // set req.backend = backend_name;
+        (parent.type === 'SetStatement' &&
+          path.parentKey === 'right' &&
+          parent.left.type !== 'ValuePair' &&
+          backendVariables.has(getIdName(parent.left)))
+
+      if (isReference) {
+        this.reference(path as NodePath<Identifier>, false)
+      }
+    })
+  }
+
+  private crawlSubroutine() {
+    // declarations first since `goto` can jump forward to labels
+    this.walk((path) => {
+      const { node } = path
+
+      if (node.type === 'DeclareStatement') {
+        const name = getIdName(node.id)
+
+        if (!this.bindings.has(name)) {
+          this.bindings.set(
+            name,
+            new Binding(name, 'local', path, node.valueType)
+          )
+        }
+      } else if (node.type === 'LabelStatement') {
+        const { name } = node.label
+
+        if (!this.bindings.has(name)) {
+          this.bindings.set(name, new Binding(name, 'label', path))
+        }
+      }
+    })
+
+    this.walk((path) => {
+      const { node } = path
+
+      // the declared ids are not references
+      if (node.type === 'DeclareStatement' || node.type === 'LabelStatement') {
+        path.skip()
+
+        return
+      }
+
+      // goto label; where labels are only in the same subroutine
+      if (node.type === 'Identifier' && path.parent?.type === 'GotoStatement') {
+        const binding = this.getOwnBinding(node.name)
+
+        this.reference(path as NodePath<Identifier>, false, binding)
+
+        return
+      }
+
+      if (node.type !== 'Identifier' && node.type !== 'Member') return
+
+      // only the outermost id of a chain such as `var.foo`
+      path.skip()
+
+      const name = getIdName(node)
+
+      if (!name.startsWith('var.')) return
+
+      const parent = path.parent?.type
+      const isAssignment =
+        ((parent === 'SetStatement' || parent === 'AddStatement') &&
+          path.parentKey === 'left') ||
+        (parent === 'UnsetStatement' && path.parentKey === 'id')
+
+      this.reference(path as NodePath<Identifier | Member>, isAssignment)
+    })
+  }
+
+  private reference(
+    path: NodePath<Identifier | Member>,
+    isAssignment: boolean,
+    binding = this.getBinding(getIdName(path.node))
+  ) {
+    const name = getIdName(path.node)
+    const reference = { name, path, binding, isAssignment }
+
+    this.references.push(reference)
+    binding?.references.push(reference)
+  }
+
+  // Walk the descendants of the block
+  private walk(callback: (path: NodePath) => void) {
+    const block = this.path
+
+    traverseNode(
+      block.node,
+      (path) => {
+        if (path.node !== block.node) callback(path)
+      },
+      {
+        parent: block.parent,
+        parentPath: block.parentPath,
+        inList: block.inList,
+        container: block.container,
+        parentKey: block.parentKey,
+        key: block.key,
+        state: null,
+      }
+    )
+  }
+}
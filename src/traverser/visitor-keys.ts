@@ -0,0 +1,87 @@
+import { Node, NodeType } from '../nodes'
+
+type NodeOf<K extends NodeType> = Extract<Node, { type: K }>
+
+// property names of `T` which hold a child node or a list of child nodes
+type ChildKey<T> = {
+  [K in keyof T]-?: NonNullable<T[K]> extends Node | Array<Node> ? K : never
+}[keyof T]
+
+type VisitorKeys = {
+  [K in NodeType]: ReadonlyArray<ChildKey<NodeOf<K>>>
+}
+
+/**
+ * Child keys for every node type, in the order they are traversed.
+ * The order follows the order the children appear in the source.
+ */
+export const visitorKeys: VisitorKeys = {
+  Program: ['body'],
+
+  AclStatement: ['id', 'body'],
+  AddStatement: ['left', 'right'],
+  BackendStatement: ['id', 'body'],
+  BogusStatement: [],
+  CallStatement: ['subroutine'],
+  DeclareStatement: ['id'],
+  DirectorStatement: ['id', 'directorType', 'body'],
+  ErrorStatement: ['message'],
+  EsiStatement: [],
+  ExpressionStatement: ['body'],
+  FastlyMacroStatement: ['body'],
+  GotoStatement: ['label'],
+  IfStatement: ['test', 'consequent', 'alternative'],
+  ImportStatement: ['module'],
+  IncludeStatement: ['module'],
+  InlineCStatement: [],
+  LabelStatement: ['label'],
+  LogStatement: ['content'],
+  NewStatement: ['id', 'value'],
+  PenaltyboxStatement: ['id'],
+  PragmaStatement: ['name'],
+  ProbeStatement: ['id', 'body'],
+  RatecounterStatement: ['id'],
+  RestartStatement: [],
+  ReturnStatement: ['argument', 'args'],
+  SetStatement: ['left', 'right'],
+  SubroutineStatement: ['id', 'body'],
+  SyntheticStatement: ['response'],
+  SyntheticBase64Statement: ['response'],
+  TableStatement: ['id', 'body'],
+  UnsetStatement: ['id'],
+  VersionStatement: [],
+
+  BooleanLiteral: [],
+  DurationLiteral: [],
+  MultilineLiteral: [],
+  NumericLiteral: [],
+  RegexLiteral: [],
+  StringLiteral: [],
+  Ip: [],
+
+  BinaryExpression: ['left', 'right'],
+  BooleanExpression: ['body'],
+  ConcatExpression: ['body'],
+  FunCallExpression: ['callee', 'args'],
+  Identifier: [],
+  LogicalExpression: ['left', 'right'],
+  Member: ['base', 'member'],
+  UnaryExpression: ['argument'],
+  ValuePair: ['base', 'name'],
+  BackendDefinition: ['value'],
+  TableDefinition: ['key', 'value'],
+  DirectorProperty: ['value'],
+  DirectorBackend: ['attributes'],
+}
+
+export function isNodeType(type: string): type is NodeType {
+  return Object.prototype.hasOwnProperty.call(visitorKeys, type)
+}
+
+export function getVisitorKeys(node: Node): ReadonlyArray<string> {
+  if (!isNodeType(node.type)) {
+    throw new Error(`Unknown node type: '${node.type}'`)
+  }
+
+  return visitorKeys[node.type]
+}
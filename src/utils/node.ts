@@ -0,0 +1,28 @@
+import { Identifier, Member, StringLiteral } from '../nodes'
+import { escapeString } from './string'
+
+// `var.foo` for the Member of `var` and `foo`
+export function getIdName(node: Identifier | Member): string {
+  return node.type === 'Identifier'
+    ? node.name
+    : getIdName(node.base) + '.' + node.member.name
+}
+
+// A StringLiteral for any JS string, e.g. `buildStringLiteral('"foo"')`
+export function buildStringLiteral(value: string): StringLiteral {
+  return { type: 'StringLiteral', value: escapeString(value), cooked: value }
+}
+
+// The Identifier or Member for a dotted name, e.g. `buildId('req.http.Host')`
+export function buildId(name: string): Identifier | Member {
+  const [first, ...rest] = name.split('.')
+
+  return rest.reduce<Identifier | Member>(
+    (base, member) => ({
+      type: 'Member',
+      base,
+      member: { type: 'Identifier', name: member },
+    }),
+    { type: 'Identifier', name: first }
+  )
+}
@@ -0,0 +1,11 @@
+// Escape a JS string into a quoted VCL string, e.g. `"foo"` into `"%22foo%22"`
+export function escapeString(value: string): string {
+  // eslint-disable-next-line no-control-regex
+  const escaped = value.replace(/["%\x00-\x1f\x7f]/g, (char) => {
+    const code = char.charCodeAt(0).toString(16).toUpperCase()
+
+    return '%' + (code.length === 1 ? '0' + code : code)
+  })
+
+  return '"' + escaped + '"'
+}
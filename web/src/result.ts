@@ -1,5 +1,15 @@
 import { BaseNode } from '../../src/nodes'
+import { VacelineDiagnostic } from '../../src/diagnostic'
 
 export type Result =
   | { type: 'success'; code: string; ast: BaseNode }
-  | { type: 'error'; message: string }
+  | {
+      type: 'error'
+      message: string
+      diagnostics: Array<
+        Pick<
+          VacelineDiagnostic,
+          'code' | 'name' | 'message' | 'start' | 'end' | 'hint' | 'severity'
+        >
+      >
+    }
@@ -2,10 +2,22 @@
 
 import * as Comlink from 'comlink'
 import { parse, generate } from '../../src/lib'
+import { formatDiagnostic, VacelineSyntaxError } from '../../src/diagnostic'
+import { Result } from './result'
 
-const transpile = async (source: string) => {
+const transpile = async (source: string): Promise<Result> => {
   try {
-    const ast = parse(source)
+    const { ast, diagnostics } = parse(source, { recover: true })
+
+    if (diagnostics.length) {
+      return {
+        type: 'error',
+        message: diagnostics.map((d) => formatDiagnostic(d)).join('\n'),
+        // plain objects as diagnostics are cloned to be posted
+        diagnostics,
+      }
+    }
+
     const { code } = generate(ast)
 
     return { type: 'success', code, ast }
@@ -13,6 +25,7 @@ const transpile = async (source: string) => {
     return {
       type: 'error',
       message: err.message,
+      diagnostics: err instanceof VacelineSyntaxError ? [err.diagnostic] : [],
     }
   }
 }